@@ -31,7 +31,7 @@ export default tseslint.config(
 		},
 	},
 	{
-		files: ['test/**', '**/*.test.ts'],
+		files: ['test/**', '**/*.test.ts', '**/*.bench.ts'],
 		rules: {
 			'@typescript-eslint/unbound-method': 'off',
 			'@typescript-eslint/no-extraneous-class': 'off',
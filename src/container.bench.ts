@@ -0,0 +1,247 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { GCProfiler, getHeapStatistics } from 'node:v8';
+import { bench, describe } from 'vitest';
+import * as current from './index.js';
+
+/*
+ * Benchmarks of the resolution hot paths, run with `pnpm bench`.
+ *
+ * To compare with another version, check it out next to this one and point
+ * SANDLY_BASELINE at it. Every case then also runs against its sources:
+ *
+ *   git worktree add ../sandly-baseline <ref>
+ *   SANDLY_BASELINE=../sandly-baseline pnpm bench
+ *
+ * Before timing the cases, the suite prints the bytes each one allocates
+ * per operation for every version.
+ */
+
+type Sandly = typeof current;
+
+interface Workload {
+	readonly group: string;
+	readonly name: string;
+	readonly run: () => void | Promise<void>;
+}
+
+class Config {
+	readonly url = 'postgres://localhost';
+}
+
+class Database {
+	constructor(readonly config: Config) {}
+}
+
+class Logger {}
+
+class UserRepository {
+	constructor(
+		readonly db: Database,
+		readonly logger: Logger
+	) {}
+}
+
+class RequestContext {
+	constructor(readonly requestId: string) {}
+}
+
+class UserService {
+	constructor(
+		readonly users: UserRepository,
+		readonly context: RequestContext
+	) {}
+}
+
+const Depth = 20;
+
+/**
+ * Sets up every benchmarked operation against one version of the library.
+ */
+async function workloads({
+	Container,
+	ScopedContainer,
+	Tag,
+}: Sandly): Promise<Workload[]> {
+	const RequestIdTag = Tag.of('requestId')<string>();
+
+	const app = ScopedContainer.builder('app')
+		.add(Config, () => new Config())
+		.add(Database, (ctx) => new Database(ctx.resolveSync(Config)))
+		.add(Logger, () => new Logger())
+		.add(
+			UserRepository,
+			(ctx) =>
+				new UserRepository(
+					ctx.resolveSync(Database),
+					ctx.resolveSync(Logger)
+				)
+		)
+		.build();
+	await app.resolve(UserRepository);
+
+	// Builds a request scope the way a web server would for every request
+	const requestScope = (requestId: string) =>
+		app
+			.child('request')
+			.add(RequestIdTag, () => requestId)
+			.add(
+				RequestContext,
+				async (ctx) =>
+					new RequestContext(await ctx.resolve(RequestIdTag))
+			)
+			.add(
+				UserService,
+				async (ctx) =>
+					new UserService(
+						await ctx.resolve(UserRepository),
+						await ctx.resolve(RequestContext)
+					)
+			)
+			.build();
+
+	const container = Container.builder()
+		.add(Config, () => new Config())
+		.add(Database, (ctx) => new Database(ctx.resolveSync(Config)))
+		.build();
+	container.resolveSync(Database);
+	const operation = requestScope('cached').child('operation').build();
+	await operation.resolve(UserRepository);
+
+	const Links = Array.from({ length: Depth }, (_, i) =>
+		Tag.of(`link${String(i)}`)<number>()
+	);
+	const builder = Container.builder().add(Links[0]!, {
+		create: () => 0,
+		lifetime: 'transient',
+	});
+	for (let i = 1; i < Depth; i++) {
+		const previous = Links[i - 1]!;
+		builder.add(Links[i]!, {
+			create: (ctx) => (ctx.resolveSync(previous as never) as number) + 1,
+			lifetime: 'transient',
+		});
+	}
+	const chain = builder.build();
+	const Last = Links[Depth - 1]! as never;
+
+	let requests = 0;
+
+	return [
+		{
+			group: 'cached singletons',
+			name: 'resolve()',
+			run: async () => {
+				await container.resolve(Database);
+			},
+		},
+		{
+			group: 'cached singletons',
+			name: 'resolveSync()',
+			run: () => {
+				container.resolveSync(Database);
+			},
+		},
+		{
+			group: 'cached singletons',
+			name: 'resolve() from a nested scope',
+			run: async () => {
+				await operation.resolve(UserRepository);
+			},
+		},
+		{
+			group: 'transient dependencies',
+			name: `resolve() a chain of ${String(Depth)}`,
+			run: async () => {
+				await chain.resolve(Last);
+			},
+		},
+		{
+			group: 'transient dependencies',
+			name: `resolveSync() a chain of ${String(Depth)}`,
+			run: () => {
+				chain.resolveSync(Last);
+			},
+		},
+		{
+			group: 'request scopes',
+			name: 'create, resolve and destroy',
+			run: async () => {
+				const request = requestScope(String(requests++));
+				await request.resolve(UserService);
+				await request.destroy();
+			},
+		},
+	];
+}
+
+/**
+ * Average bytes allocated by one call of `run`, including memory that was
+ * collected in the meantime and excluding the cost of the measuring loop.
+ */
+async function allocatedBytes(run: Workload['run']): Promise<number> {
+	const measure = async (fn: Workload['run']) => {
+		const iterations = 1000;
+		for (let i = 0; i < 100; i++) {
+			await fn();
+		}
+		const profiler = new GCProfiler();
+		profiler.start();
+		const start = getHeapStatistics().used_heap_size;
+		for (let i = 0; i < iterations; i++) {
+			await fn();
+		}
+		const end = getHeapStatistics().used_heap_size;
+		const collected = profiler
+			.stop()
+			.statistics.reduce(
+				(total, { beforeGC, afterGC }) =>
+					total +
+					beforeGC.heapStatistics.usedHeapSize -
+					afterGC.heapStatistics.usedHeapSize,
+				0
+			);
+		return (end - start + collected) / iterations;
+	};
+	const overhead = await measure(() => undefined);
+	return Math.max(0, Math.round((await measure(run)) - overhead));
+}
+
+const versions: [string, Sandly][] = [['current', current]];
+const baseline = process.env.SANDLY_BASELINE;
+if (baseline !== undefined) {
+	const url = pathToFileURL(resolve(baseline, 'src/index.ts')).href;
+	versions.push(['baseline', (await import(url)) as Sandly]);
+}
+
+const suites = await Promise.all(
+	versions.map(async ([version, sandly]) => ({
+		version,
+		workloads: await workloads(sandly),
+	}))
+);
+
+const allocations: Record<string, Record<string, number>> = {};
+for (const { version, workloads } of suites) {
+	for (const { group, name, run } of workloads) {
+		const row = (allocations[`${group} > ${name}`] ??= {});
+		row[`${version} (bytes/op)`] = await allocatedBytes(run);
+	}
+}
+console.table(allocations);
+
+for (const group of new Set(suites[0]!.workloads.map((w) => w.group))) {
+	describe(group, () => {
+		for (const { version, workloads } of suites) {
+			for (const workload of workloads) {
+				if (workload.group === group) {
+					const { name, run } = workload;
+					bench(
+						versions.length > 1 ? `${name} [${version}]` : name,
+						run
+					);
+				}
+			}
+		}
+	});
+}
@@ -7,10 +7,14 @@ import {
 	type ResolutionContext,
 } from './container.js';
 import {
+	AsyncFactoryError,
 	CircularDependencyError,
 	ContainerDestroyedError,
 	DependencyCreationError,
 	DependencyFinalizationError,
+	DependencyInitializationError,
+	DependencyTimeoutError,
+	ScopeNotFoundError,
 	UnknownDependencyError,
 } from './errors.js';
 import { Layer } from './layer.js';
@@ -143,6 +147,25 @@ describe('Container', () => {
 	});
 
 	describe('resolve()', () => {
+		it('should accept abstract classes as tags', async () => {
+			abstract class Notifier {
+				abstract notify(): string;
+			}
+			class EmailNotifier extends Notifier {
+				notify() {
+					return 'email';
+				}
+			}
+
+			const container = Container.builder()
+				.add(Notifier, () => new EmailNotifier())
+				.build();
+
+			const notifier = await container.resolve(Notifier);
+
+			expect(notifier.notify()).toBe('email');
+		});
+
 		it('should create and return instance for sync factory', async () => {
 			class TestService {
 				getValue() {
@@ -365,257 +388,3301 @@ describe('Container', () => {
 		});
 	});
 
-	describe('dependency injection', () => {
-		it('should inject dependencies through factory function', async () => {
-			class Database {
-				query() {
-					return 'db-result';
-				}
-			}
+	describe('resolveOptional()', () => {
+		class Telemetry {}
+		class Database {}
 
-			class UserService {
-				constructor(private db: Database) {}
-				getUser() {
-					return this.db.query();
-				}
+		it('should resolve registered dependencies', async () => {
+			const container = Container.builder()
+				.add(Telemetry, () => new Telemetry())
+				.build();
+
+			const telemetry = await container.resolveOptional(Telemetry);
+
+			expect(telemetry).toBeInstanceOf(Telemetry);
+			expect(telemetry).toBe(await container.resolve(Telemetry));
+		});
+
+		it('should return undefined for unregistered dependencies', async () => {
+			const container = Container.empty();
+
+			expect(await container.resolveOptional(Telemetry)).toBeUndefined();
+		});
+
+		it('should be available in factories', async () => {
+			class Reporter {
+				constructor(readonly telemetry: Telemetry | undefined) {}
 			}
 
 			const container = Container.builder()
-				.add(Database, () => new Database())
 				.add(
-					UserService,
-					async (ctx) => new UserService(await ctx.resolve(Database))
+					Reporter,
+					async (ctx) =>
+						new Reporter(await ctx.resolveOptional(Telemetry))
 				)
 				.build();
 
-			const userService = await container.resolve(UserService);
+			const reporter = await container.resolve(Reporter);
 
-			expect(userService.getUser()).toBe('db-result');
+			expect(reporter.telemetry).toBeUndefined();
 		});
 
-		it('should handle complex dependency graphs', async () => {
-			class Config {
-				getDbUrl() {
-					return 'db://localhost';
-				}
-			}
+		it('should propagate errors of registered dependencies', async () => {
+			const container = Container.builder()
+				.add(Telemetry, async (ctx) => {
+					// @ts-expect-error - Database is not registered
+					await ctx.resolve(Database);
+					return new Telemetry();
+				})
+				.build();
 
-			class Database {
-				constructor(private config: Config) {}
-				connect() {
-					return `Connected to ${this.config.getDbUrl()}`;
-				}
-			}
+			await expect(container.resolveOptional(Telemetry)).rejects.toThrow(
+				DependencyCreationError
+			);
+		});
 
-			class Cache {}
+		it('should throw on destroyed container', async () => {
+			const container = Container.empty();
+			await container.destroy();
 
-			class UserService {
-				constructor(
-					private db: Database,
-					private _cache: Cache
-				) {}
-				getUser() {
-					return `${this.db.connect()} with cache`;
-				}
-			}
+			await expect(container.resolveOptional(Telemetry)).rejects.toThrow(
+				ContainerDestroyedError
+			);
+		});
+	});
 
+	describe('resolveSync()', () => {
+		class Config {
+			readonly port = 3000;
+		}
+		class Database {
+			constructor(readonly config: Config) {}
+		}
+		class UserService {
+			constructor(readonly db: Database) {}
+		}
+
+		it('should resolve synchronous factories', () => {
 			const container = Container.builder()
 				.add(Config, () => new Config())
+				.add(Database, (ctx) => new Database(ctx.resolveSync(Config)))
 				.add(
-					Database,
-					async (ctx) => new Database(await ctx.resolve(Config))
+					UserService,
+					(ctx) => new UserService(ctx.resolveSync(Database))
 				)
-				.add(Cache, () => new Cache())
-				.add(UserService, async (ctx) => {
-					const [db, cache] = await ctx.resolveAll(Database, Cache);
-					return new UserService(db, cache);
+				.build();
+
+			const service = container.resolveSync(UserService);
+
+			expect(service).toBeInstanceOf(UserService);
+			expect(service.db.config.port).toBe(3000);
+		});
+
+		it('should share singletons with async resolution', async () => {
+			const container = Container.builder()
+				.add(Config, () => new Config())
+				.build();
+
+			const config = container.resolveSync(Config);
+
+			expect(container.resolveSync(Config)).toBe(config);
+			expect(await container.resolve(Config)).toBe(config);
+		});
+
+		it('should return instances created by async resolution', async () => {
+			const container = Container.builder()
+				.add(Config, async () => {
+					await Promise.resolve();
+					return new Config();
 				})
 				.build();
 
-			const userService = await container.resolve(UserService);
+			const config = await container.resolve(Config);
 
-			expect(userService.getUser()).toBe(
-				'Connected to db://localhost with cache'
-			);
+			expect(container.resolveSync(Config)).toBe(config);
 		});
 
-		it('should detect circular dependencies', async () => {
-			class ServiceA {
-				constructor(private _b: ServiceB) {}
-			}
+		it('should create transient dependencies on every call', () => {
+			const container = Container.builder()
+				.add(Config, {
+					create: () => new Config(),
+					lifetime: 'transient',
+				})
+				.build();
 
-			class ServiceB {
-				constructor(private _a: ServiceA) {}
-			}
+			expect(container.resolveSync(Config)).not.toBe(
+				container.resolveSync(Config)
+			);
+		});
 
+		it('should throw AsyncFactoryError naming the async factory', () => {
 			const container = Container.builder()
+				.add(Config, () => new Config())
 				.add(
-					ServiceA,
-					// @ts-expect-error - circular dependency
-					async (ctx) => new ServiceA(await ctx.resolve(ServiceB))
+					Database,
+					async (ctx) => new Database(await ctx.resolve(Config))
 				)
 				.add(
-					ServiceB,
-					async (ctx) => new ServiceB(await ctx.resolve(ServiceA))
+					UserService,
+					(ctx) => new UserService(ctx.resolveSync(Database))
 				)
 				.build();
 
+			let error: unknown;
 			try {
-				await container.resolve(ServiceA);
-				expect.fail('Should have thrown');
-			} catch (error) {
-				expect(error).toBeInstanceOf(DependencyCreationError);
-				const rootCause = (
-					error as DependencyCreationError
-				).getRootCause();
-				expect(rootCause).toBeInstanceOf(CircularDependencyError);
+				container.resolveSync(UserService);
+			} catch (e) {
+				error = e;
 			}
+
+			expect(error).toBeInstanceOf(AsyncFactoryError);
+			expect((error as AsyncFactoryError).message).toBe(
+				'Cannot resolve "Database" synchronously: its factory returned a promise (UserService -> Database)'
+			);
+			expect((error as AsyncFactoryError).detail).toEqual({
+				tag: 'Database',
+				reason: 'async',
+				dependencyChain: ['UserService'],
+			});
 		});
-	});
 
-	describe('destroy()', () => {
-		it('should call finalizers for instantiated dependencies', async () => {
-			class TestService {
-				cleanup = vi.fn() as () => void;
-			}
+		it('should finalize instances of async factories it could not wait for', async () => {
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Config, {
+					create: () => Promise.resolve(new Config()),
+					cleanup,
+				})
+				.build();
 
-			const finalizer = vi.fn((instance: TestService) => {
-				instance.cleanup();
-			});
+			expect(() => container.resolveSync(Config)).toThrow(
+				AsyncFactoryError
+			);
+			await new Promise((resolve) => setTimeout(resolve, 0));
 
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(container.graph().nodes[0]?.instantiated).toBe(false);
+		});
+
+		it('should throw AsyncFactoryError while the instance is being created', async () => {
 			const container = Container.builder()
-				.add(TestService, {
-					create: () => new TestService(),
-					cleanup: finalizer,
+				.add(Config, async () => {
+					await Promise.resolve();
+					return new Config();
 				})
 				.build();
 
-			const instance = await container.resolve(TestService);
-			await container.destroy();
+			const resolution = container.resolve(Config);
 
-			expect(finalizer).toHaveBeenCalledWith(instance);
-			expect(instance.cleanup).toHaveBeenCalled();
+			expect(() => container.resolveSync(Config)).toThrow(
+				'Cannot resolve "Config" synchronously: it is being created asynchronously'
+			);
+			await resolution;
 		});
 
-		it('should not call finalizers for non-instantiated dependencies', async () => {
-			class TestService {}
+		it('should throw AsyncFactoryError when creation is intercepted', () => {
+			const container = Container.builder()
+				.intercept((_tag, next) => next())
+				.add(Config, () => new Config())
+				.build();
 
-			const finalizer = vi.fn();
+			expect(() => container.resolveSync(Config)).toThrow(
+				'Cannot resolve "Config" synchronously: creation interceptors are registered'
+			);
+		});
 
+		it('should create instances once without applying timeouts and retries', () => {
+			const factory = vi.fn(() => {
+				throw new Error('Invalid config');
+			});
 			const container = Container.builder()
-				.add(TestService, {
-					create: () => new TestService(),
-					cleanup: finalizer,
+				.add(Config, {
+					create: factory,
+					createTimeout: 1000,
+					retry: { attempts: 3 },
 				})
 				.build();
 
-			await container.destroy();
-
-			expect(finalizer).not.toHaveBeenCalled();
+			expect(() => container.resolveSync(Config)).toThrow(
+				DependencyCreationError
+			);
+			expect(factory).toHaveBeenCalledTimes(1);
 		});
 
-		it('should handle async finalizers', async () => {
-			class TestService {
-				asyncCleanup = vi
-					.fn()
-					.mockResolvedValue(undefined) as () => Promise<void>;
-			}
-
+		it('should wrap factory errors in DependencyCreationError', () => {
+			const cause = new Error('Invalid config');
 			const container = Container.builder()
-				.add(TestService, {
-					create: () => new TestService(),
-					cleanup: (instance) => instance.asyncCleanup(),
+				.add(Config, () => {
+					throw cause;
 				})
 				.build();
 
-			const instance = await container.resolve(TestService);
-			await container.destroy();
+			let error: unknown;
+			try {
+				container.resolveSync(Config);
+			} catch (e) {
+				error = e;
+			}
 
-			expect(instance.asyncCleanup).toHaveBeenCalled();
+			expect(error).toBeInstanceOf(DependencyCreationError);
+			expect((error as DependencyCreationError).cause).toBe(cause);
 		});
 
-		it('should collect finalizer errors', async () => {
-			class ServiceA {}
-			class ServiceB {}
-
+		it('should detect circular dependencies', () => {
+			class A {}
+			class B {}
 			const container = Container.builder()
-				.add(ServiceA, {
-					create: () => new ServiceA(),
-					cleanup: () => {
-						throw new Error('Finalizer A error');
-					},
+				.add(A, (ctx) => {
+					// @ts-expect-error - circular dependency
+					ctx.resolveSync(B);
+					return new A();
 				})
-				.add(ServiceB, {
-					create: () => new ServiceB(),
-					cleanup: () => {
-						throw new Error('Finalizer B error');
-					},
+				.add(B, (ctx) => {
+					ctx.resolveSync(A);
+					return new B();
 				})
 				.build();
 
-			await container.resolve(ServiceA);
-			await container.resolve(ServiceB);
+			let error: unknown;
+			try {
+				container.resolveSync(A);
+			} catch (e) {
+				error = e;
+			}
 
-			await expect(container.destroy()).rejects.toThrow(
-				DependencyFinalizationError
-			);
+			expect(error).toBeInstanceOf(DependencyCreationError);
+			expect(
+				(error as DependencyCreationError).getRootCause()
+			).toBeInstanceOf(CircularDependencyError);
 		});
 
-		it('should be idempotent', async () => {
-			class TestService {}
-
+		it('should finalize synchronously created instances', async () => {
+			const cleanup = vi.fn();
 			const container = Container.builder()
-				.add(TestService, () => new TestService())
+				.add(Config, { create: () => new Config(), cleanup })
 				.build();
 
+			const config = container.resolveSync(Config);
 			await container.destroy();
-			await expect(container.destroy()).resolves.toBeUndefined();
-		});
 
-		it('should make container unusable after destroy', async () => {
-			class TestService {}
+			expect(cleanup).toHaveBeenCalledWith(config);
+		});
 
+		it('should finalize in reverse dependency order', async () => {
+			const order: string[] = [];
 			const container = Container.builder()
-				.add(TestService, () => new TestService())
+				.add(Config, {
+					create: () => new Config(),
+					cleanup: () => {
+						order.push('config');
+					},
+				})
+				.add(Database, {
+					create: (ctx) => new Database(ctx.resolveSync(Config)),
+					cleanup: () => {
+						order.push('database');
+					},
+				})
 				.build();
 
+			container.resolveSync(Database);
 			await container.destroy();
 
-			await expect(container.resolve(TestService)).rejects.toThrow(
-				ContainerDestroyedError
-			);
+			expect(order).toEqual(['database', 'config']);
 		});
-	});
 
-	describe('use()', () => {
-		it('should resolve service and run callback', async () => {
-			class UserService {
-				getUsers() {
-					return ['alice', 'bob'];
+		it('should resolve aliases, decorators and multi-bindings', () => {
+			abstract class Store {
+				abstract get(): string;
+			}
+			class MemoryStore extends Store {
+				get() {
+					return 'memory';
 				}
 			}
-
+			const Plugins = Tag.many('plugins')<string>();
 			const container = Container.builder()
-				.add(UserService, () => new UserService())
+				.add(MemoryStore, () => new MemoryStore())
+				.alias(Store, MemoryStore)
+				.decorate(MemoryStore, (store) => store)
+				.contribute(Plugins, () => 'a')
+				.contribute(Plugins, () => 'b')
 				.build();
 
-			const result = await container.use(UserService, (service) =>
-				service.getUsers()
-			);
-
-			expect(result).toEqual(['alice', 'bob']);
+			expect(container.resolveSync(Store).get()).toBe('memory');
+			expect(container.resolveSync(Plugins)).toEqual(['a', 'b']);
 		});
 
-		it('should destroy container after callback completes', async () => {
-			class TestService {}
+		it('should resolve self-wired services and tag defaults', () => {
+			const Port = Tag.of('port')<number>({ default: 8080 });
+			class Server extends Tag.Service([Port]) {
+				constructor(readonly port: number) {
+					super();
+				}
+			}
+			const container = Container.empty();
+
+			expect(container.resolveSync(Server).port).toBe(8080);
+		});
 
+		it('should emit lifecycle events', () => {
 			const container = Container.builder()
-				.add(TestService, () => new TestService())
+				.add(Config, () => new Config())
 				.build();
+			const created = vi.fn();
+			container.on('created', created);
 
-			await container.use(TestService, () => 'done');
+			container.resolveSync(Config);
 
-			// Container should be destroyed
+			expect(created).toHaveBeenCalledWith(
+				expect.objectContaining({ tag: Config, id: 'Config' })
+			);
+		});
+
+		it('should throw after the container is destroyed', async () => {
+			const container = Container.builder()
+				.add(Config, () => new Config())
+				.build();
+			container.resolveSync(Config);
+
+			await container.destroy();
+
+			expect(() => container.resolveSync(Config)).toThrow(
+				ContainerDestroyedError
+			);
+		});
+	});
+
+	describe('resolveOptionalSync()', () => {
+		class Telemetry {}
+
+		it('should return undefined for unregistered dependencies', () => {
+			const container = Container.empty();
+
+			expect(container.resolveOptionalSync(Telemetry)).toBeUndefined();
+		});
+
+		it('should resolve registered dependencies', () => {
+			const container = Container.builder()
+				.add(Telemetry, () => new Telemetry())
+				.build();
+
+			expect(container.resolveOptionalSync(Telemetry)).toBeInstanceOf(
+				Telemetry
+			);
+		});
+	});
+
+	describe('tag defaults', () => {
+		const PortTag = Tag.of('port')<number>({ default: 3000 });
+
+		it('should resolve the default when nothing is registered', async () => {
+			const container = Container.empty();
+
+			expect(await container.resolve(PortTag)).toBe(3000);
+		});
+
+		it('should prefer a registered factory over the default', async () => {
+			const container = Container.builder()
+				.add(PortTag, () => 8080)
+				.build();
+
+			expect(await container.resolve(PortTag)).toBe(8080);
+		});
+
+		it('should call the default factory once per container', async () => {
+			const defaultFactory = vi.fn(() => ({ createdAt: Date.now() }));
+			const ClockTag = Tag.of('clock')<{ createdAt: number }>({
+				defaultFactory,
+			});
+			const container = Container.empty();
+
+			const first = await container.resolve(ClockTag);
+			const second = await container.resolve(ClockTag);
+
+			expect(first).toBe(second);
+			expect(defaultFactory).toHaveBeenCalledTimes(1);
+		});
+
+		it('should inject defaults into factories', async () => {
+			class Server {
+				constructor(readonly port: number) {}
+			}
+
+			const container = Container.builder()
+				.add(
+					Server,
+					async (ctx) => new Server(await ctx.resolve(PortTag))
+				)
+				.build();
+
+			const server = await container.resolve(Server);
+
+			expect(server.port).toBe(3000);
+		});
+
+		it('should resolve defaults with resolveOptional()', async () => {
+			expect(await Container.empty().resolveOptional(PortTag)).toBe(3000);
+		});
+
+		it('should wrap failing default factories in DependencyCreationError', async () => {
+			const BrokenTag = Tag.of('broken')<number>({
+				defaultFactory: () => {
+					throw new Error('boom');
+				},
+			});
+
+			await expect(Container.empty().resolve(BrokenTag)).rejects.toThrow(
+				DependencyCreationError
+			);
+		});
+	});
+
+	describe('timeouts', () => {
+		class Database {
+			closed = false;
+		}
+		class UserService {
+			constructor(readonly db: Database) {}
+		}
+		const sleep = (ms: number) =>
+			new Promise((resolve) => setTimeout(resolve, ms));
+
+		it('should reject with DependencyTimeoutError when a factory hangs', async () => {
+			const container = Container.builder()
+				.add(Database, {
+					create: () => new Promise<Database>(() => undefined),
+					createTimeout: 10,
+				})
+				.build();
+
+			const error: unknown = await container
+				.resolve(Database)
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyTimeoutError);
+			expect((error as DependencyTimeoutError).message).toBe(
+				'Creating "Database" timed out after 10ms'
+			);
+		});
+
+		it('should include the in-flight resolution chain', async () => {
+			const container = Container.builder()
+				.add(Database, {
+					create: () => new Promise<Database>(() => undefined),
+					createTimeout: 10,
+				})
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+
+			const error: unknown = await container
+				.resolve(UserService)
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyCreationError);
+			const rootCause = (error as DependencyCreationError).getRootCause();
+			expect(rootCause).toBeInstanceOf(DependencyTimeoutError);
+			expect((rootCause as DependencyTimeoutError).detail).toEqual({
+				tag: 'Database',
+				operation: 'create',
+				timeout: 10,
+				dependencyChain: ['UserService'],
+			});
+		});
+
+		it('should apply container-wide defaults', async () => {
+			const container = Container.builder()
+				.defaults({ createTimeout: 10 })
+				.add(Database, () => new Promise<Database>(() => undefined))
+				.build();
+
+			await expect(container.resolve(Database)).rejects.toThrow(
+				DependencyTimeoutError
+			);
+		});
+
+		it('should prefer registration timeouts over defaults', async () => {
+			const container = Container.builder()
+				.defaults({ createTimeout: 1 })
+				.add(Database, {
+					create: async () => {
+						await sleep(10);
+						return new Database();
+					},
+					createTimeout: 1000,
+				})
+				.build();
+
+			await expect(container.resolve(Database)).resolves.toBeInstanceOf(
+				Database
+			);
+		});
+
+		it('should retry creation after a timeout', async () => {
+			let attempts = 0;
+			const container = Container.builder()
+				.add(Database, {
+					create: () =>
+						++attempts === 1
+							? new Promise<Database>(() => undefined)
+							: new Database(),
+					createTimeout: 10,
+				})
+				.build();
+
+			await expect(container.resolve(Database)).rejects.toThrow(
+				DependencyTimeoutError
+			);
+			await expect(container.resolve(Database)).resolves.toBeInstanceOf(
+				Database
+			);
+		});
+
+		it('should finalize instances created after the timeout', async () => {
+			const late = new Database();
+			const container = Container.builder()
+				.add(Database, {
+					create: async () => {
+						await sleep(20);
+						return late;
+					},
+					cleanup: (db) => {
+						db.closed = true;
+					},
+					createTimeout: 5,
+				})
+				.build();
+
+			await expect(container.resolve(Database)).rejects.toThrow(
+				DependencyTimeoutError
+			);
+			await sleep(30);
+
+			expect(late.closed).toBe(true);
+		});
+
+		it('should report hung finalizers and continue destruction', async () => {
+			const ConfigTag = Tag.of('config')<string>();
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.defaults({ cleanupTimeout: 10 })
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: () => new Promise<void>(() => undefined),
+				})
+				.add(ConfigTag, { create: () => 'cfg', cleanup })
+				.build();
+
+			await container.resolveAll(Database, ConfigTag);
+			const error: unknown = await container
+				.destroy()
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyFinalizationError);
+			const [cause] = (
+				error as DependencyFinalizationError
+			).getRootCauses();
+			expect(cause).toBeInstanceOf(DependencyTimeoutError);
+			expect((cause as DependencyTimeoutError).message).toBe(
+				'Finalizing "Database" timed out after 10ms'
+			);
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('retries', () => {
+		class Broker {}
+
+		const failingTimes = (times: number) => {
+			let calls = 0;
+			return vi.fn(() => {
+				calls++;
+				if (calls <= times) {
+					throw new Error(`Connect failed (${String(calls)})`);
+				}
+				return new Broker();
+			});
+		};
+
+		it('should retry a failing factory until it succeeds', async () => {
+			const create = failingTimes(2);
+			const container = Container.builder()
+				.add(Broker, { create, retry: { attempts: 3 } })
+				.build();
+
+			const broker = await container.resolve(Broker);
+
+			expect(broker).toBeInstanceOf(Broker);
+			expect(create).toHaveBeenCalledTimes(3);
+		});
+
+		it('should record every attempt when all of them fail', async () => {
+			const create = failingTimes(Infinity);
+			const container = Container.builder()
+				.add(Broker, { create, retry: { attempts: 3 } })
+				.build();
+
+			const error: unknown = await container
+				.resolve(Broker)
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyCreationError);
+			const creationError = error as DependencyCreationError;
+			expect(creationError.message).toBe(
+				'Error creating instance of "Broker" after 3 attempts'
+			);
+			expect(
+				creationError
+					.getAttemptErrors()
+					.map((e) => (e as Error).message)
+			).toEqual([
+				'Connect failed (1)',
+				'Connect failed (2)',
+				'Connect failed (3)',
+			]);
+			expect(creationError.cause).toBe(
+				creationError.getAttemptErrors()[2]
+			);
+			expect(creationError.detail?.attempts).toHaveLength(3);
+		});
+
+		it('should stop retrying when retryIf returns false', async () => {
+			const create = failingTimes(Infinity);
+			const retryIf = vi.fn(
+				(_error: unknown, attempt: number) => attempt < 2
+			);
+			const container = Container.builder()
+				.add(Broker, { create, retry: { attempts: 5, retryIf } })
+				.build();
+
+			await expect(container.resolve(Broker)).rejects.toThrow(
+				DependencyCreationError
+			);
+
+			expect(create).toHaveBeenCalledTimes(2);
+			expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 1);
+			expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 2);
+		});
+
+		it('should wait with exponential backoff between attempts', async () => {
+			const times: number[] = [];
+			const create = vi.fn(() => {
+				times.push(performance.now());
+				throw new Error('Connect failed');
+			});
+			const container = Container.builder()
+				.add(Broker, {
+					create,
+					retry: { attempts: 3, backoff: 20 },
+				})
+				.build();
+
+			await expect(container.resolve(Broker)).rejects.toThrow(
+				DependencyCreationError
+			);
+
+			const [first = 0, second = 0, third = 0] = times;
+			expect(second - first).toBeGreaterThanOrEqual(19);
+			expect(third - second).toBeGreaterThanOrEqual(39);
+		});
+
+		it('should cap the backoff at maxBackoff', async () => {
+			const times: number[] = [];
+			const create = vi.fn(() => {
+				times.push(performance.now());
+				throw new Error('Connect failed');
+			});
+			const container = Container.builder()
+				.add(Broker, {
+					create,
+					retry: { attempts: 3, backoff: 10, maxBackoff: 10 },
+				})
+				.build();
+
+			await expect(container.resolve(Broker)).rejects.toThrow(
+				DependencyCreationError
+			);
+
+			const [, second = 0, third = 0] = times;
+			expect(third - second).toBeLessThan(100);
+		});
+
+		it('should apply the createTimeout to each attempt', async () => {
+			let calls = 0;
+			const container = Container.builder()
+				.add(Broker, {
+					create: () => {
+						calls++;
+						return calls === 1
+							? new Promise<Broker>(() => undefined)
+							: new Broker();
+					},
+					createTimeout: 10,
+					retry: { attempts: 2 },
+				})
+				.build();
+
+			const broker = await container.resolve(Broker);
+
+			expect(broker).toBeInstanceOf(Broker);
+			expect(calls).toBe(2);
+		});
+
+		it('should reject with DependencyTimeoutError when the only attempt times out', async () => {
+			const container = Container.builder()
+				.add(Broker, {
+					create: () => new Promise<Broker>(() => undefined),
+					createTimeout: 10,
+					retry: { attempts: 1 },
+				})
+				.build();
+
+			const error = await container
+				.resolve(Broker)
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyTimeoutError);
+			expect((error as DependencyTimeoutError).message).toBe(
+				'Creating "Broker" timed out after 10ms'
+			);
+		});
+
+		it('should reject with DependencyTimeoutError when the last attempt times out', async () => {
+			let calls = 0;
+			const container = Container.builder()
+				.add(Broker, {
+					create: () => {
+						calls++;
+						if (calls === 1) {
+							throw new Error('Connect failed');
+						}
+						return new Promise<Broker>(() => undefined);
+					},
+					createTimeout: 10,
+					retry: { attempts: 2 },
+				})
+				.build();
+
+			const error = await container
+				.resolve(Broker)
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(DependencyTimeoutError);
+			const timeoutError = error as DependencyTimeoutError;
+			expect(timeoutError.message).toBe(
+				'Creating "Broker" timed out after 10ms on attempt 2'
+			);
+			const [first, second] = timeoutError.getAttemptErrors();
+			expect(first).toEqual(new Error('Connect failed'));
+			expect(second).toBeInstanceOf(DependencyTimeoutError);
+			expect(timeoutError.detail?.attempts).toHaveLength(2);
+		});
+
+		it('should use the retry policy from defaults', async () => {
+			const create = failingTimes(1);
+			const container = Container.builder()
+				.defaults({ retry: { attempts: 2 } })
+				.add(Broker, create)
+				.build();
+
+			await expect(container.resolve(Broker)).resolves.toBeInstanceOf(
+				Broker
+			);
+			expect(create).toHaveBeenCalledTimes(2);
+		});
+
+		it('should emit a single creationFailed event after the last attempt', async () => {
+			const container = Container.builder()
+				.add(Broker, {
+					create: failingTimes(Infinity),
+					retry: { attempts: 3 },
+				})
+				.build();
+			const listener = vi.fn();
+			container.on('creationFailed', listener);
+
+			await expect(container.resolve(Broker)).rejects.toThrow();
+
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stop retrying once the container is destroyed', async () => {
+			const create = failingTimes(Infinity);
+			const container = Container.builder()
+				.add(Broker, {
+					create,
+					retry: { attempts: 5, backoff: 20 },
+				})
+				.build();
+
+			const resolution = container.resolve(Broker);
+			await container.destroy();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(create).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not wait for the backoff when destroyed', async () => {
+			const create = failingTimes(Infinity);
+			const container = Container.builder()
+				.add(Broker, {
+					create,
+					retry: { attempts: 2, backoff: 60_000 },
+				})
+				.build();
+
+			const resolution = container.resolve(Broker);
+			await vi.waitFor(() => {
+				expect(create).toHaveBeenCalledTimes(1);
+			});
+			const start = performance.now();
+			await container.destroy();
+
+			expect(performance.now() - start).toBeLessThan(1000);
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(create).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stop retrying once the caller aborted', async () => {
+			const create = failingTimes(Infinity);
+			const container = Container.builder()
+				.add(Broker, {
+					create,
+					retry: { attempts: 3, backoff: 60_000 },
+				})
+				.build();
+			const failed = vi.fn();
+			container.on('creationFailed', failed);
+			const controller = new AbortController();
+
+			const resolution = container.resolve(Broker, {
+				signal: controller.signal,
+			});
+			await vi.waitFor(() => {
+				expect(create).toHaveBeenCalledTimes(1);
+			});
+			controller.abort(new Error('Client disconnected'));
+
+			await expect(resolution).rejects.toThrow('Client disconnected');
+			await vi.waitFor(() => {
+				expect(failed).toHaveBeenCalledTimes(1);
+			});
+			expect(create).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('abort signals', () => {
+		class Database {}
+		class UserService {
+			constructor(readonly db: Database) {}
+		}
+
+		const untilAborted = (signal: AbortSignal) =>
+			new Promise<never>((_, reject) => {
+				signal.addEventListener('abort', () => {
+					reject(new Error('Setup cancelled'));
+				});
+			});
+
+		it('should pass a signal to factories', async () => {
+			let signal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					signal = ctx.signal;
+					return new Database();
+				})
+				.build();
+
+			await container.resolve(Database);
+
+			expect(signal).toBeInstanceOf(AbortSignal);
+			expect(signal?.aborted).toBe(false);
+		});
+
+		it('should not call factories when the signal is already aborted', async () => {
+			const create = vi.fn(() => new Database());
+			const container = Container.builder().add(Database, create).build();
+			const reason = new Error('Client disconnected');
+
+			await expect(
+				container.resolve(Database, {
+					signal: AbortSignal.abort(reason),
+				})
+			).rejects.toBe(reason);
+			expect(create).not.toHaveBeenCalled();
+		});
+
+		it('should reject and cancel factories when the signal is aborted', async () => {
+			let factorySignal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					factorySignal = ctx.signal;
+					return untilAborted(ctx.signal);
+				})
+				.build();
+			const controller = new AbortController();
+			const reason = new Error('Client disconnected');
+
+			const resolution = container.resolve(Database, {
+				signal: controller.signal,
+			});
+			controller.abort(reason);
+
+			await expect(resolution).rejects.toBe(reason);
+			expect(factorySignal?.aborted).toBe(true);
+			expect(factorySignal?.reason).toBe(reason);
+		});
+
+		it('should keep creating singletons for callers that did not abort', async () => {
+			let factorySignal: AbortSignal | undefined;
+			let finish: (db: Database) => void = () => undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					factorySignal = ctx.signal;
+					return new Promise<Database>((resolve) => {
+						finish = resolve;
+					});
+				})
+				.build();
+			const controller = new AbortController();
+			const reason = new Error('Client disconnected');
+
+			const first = container.resolve(Database, {
+				signal: controller.signal,
+			});
+			const second = container.resolve(Database);
+			controller.abort(reason);
+
+			await expect(first).rejects.toBe(reason);
+			expect(factorySignal?.aborted).toBe(false);
+			const db = new Database();
+			finish(db);
+			expect(await second).toBe(db);
+		});
+
+		it('should cancel singletons once every caller has aborted', async () => {
+			let factorySignal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					factorySignal = ctx.signal;
+					return untilAborted(ctx.signal);
+				})
+				.build();
+			const first = new AbortController();
+			const second = new AbortController();
+
+			const resolutions = [
+				container.resolve(Database, { signal: first.signal }),
+				container.resolve(Database, { signal: second.signal }),
+			];
+			first.abort();
+
+			expect(factorySignal?.aborted).toBe(false);
+			second.abort();
+
+			expect(factorySignal?.aborted).toBe(true);
+			for (const resolution of resolutions) {
+				await expect(resolution).rejects.toThrow();
+			}
+		});
+
+		it('should propagate the signal to nested factories', async () => {
+			let databaseSignal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					databaseSignal = ctx.signal;
+					return untilAborted(ctx.signal);
+				})
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+			const controller = new AbortController();
+
+			const resolution = container.resolve(UserService, {
+				signal: controller.signal,
+			});
+			await Promise.resolve();
+			controller.abort();
+
+			await expect(resolution).rejects.toThrow();
+			expect(databaseSignal?.aborted).toBe(true);
+		});
+
+		it('should finalize instances created after the resolution was aborted', async () => {
+			let finish: (db: Database) => void = () => undefined;
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Database, {
+					create: () =>
+						new Promise<Database>((resolve) => {
+							finish = resolve;
+						}),
+					cleanup,
+				})
+				.build();
+			const controller = new AbortController();
+
+			const resolution = container.resolve(Database, {
+				signal: controller.signal,
+			});
+			controller.abort();
+			await expect(resolution).rejects.toThrow();
+
+			const db = new Database();
+			finish(db);
+			expect(await container.resolve(Database)).toBe(db);
+
+			await container.destroy();
+			expect(cleanup).toHaveBeenCalledWith(db);
+		});
+
+		it('should abort the signal of running factories on destroy', async () => {
+			let factorySignal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					factorySignal = ctx.signal;
+					return untilAborted(ctx.signal);
+				})
+				.build();
+
+			const resolution = container.resolve(Database);
+			await container.destroy();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(factorySignal?.aborted).toBe(true);
+			expect(factorySignal?.reason).toBeInstanceOf(
+				ContainerDestroyedError
+			);
+		});
+
+		it('should accept a signal in ctx.resolve', async () => {
+			const controller = new AbortController();
+			let databaseSignal: AbortSignal | undefined;
+			const container = Container.builder()
+				.add(Database, (ctx) => {
+					databaseSignal = ctx.signal;
+					return untilAborted(ctx.signal);
+				})
+				.add(
+					UserService,
+					async (ctx) =>
+						new UserService(
+							await ctx.resolve(Database, {
+								signal: controller.signal,
+							})
+						)
+				)
+				.build();
+
+			const resolution = container.resolve(UserService);
+			await Promise.resolve();
+			controller.abort();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(databaseSignal?.aborted).toBe(true);
+		});
+
+		it('should skip finalizers that have not started when destroy is aborted', async () => {
+			class Cache {}
+			let finishCleanup: () => void = () => undefined;
+			const cacheCleanup = vi.fn();
+			const container = Container.builder()
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: cacheCleanup,
+				})
+				.add(Cache, {
+					create: async (ctx) => {
+						await ctx.resolve(Database);
+						return new Cache();
+					},
+					cleanup: () =>
+						new Promise<void>((resolve) => {
+							finishCleanup = resolve;
+						}),
+				})
+				.build();
+			await container.resolve(Cache);
+			const controller = new AbortController();
+			const reason = new Error('Shutdown deadline');
+
+			const destruction = container.destroy({
+				signal: controller.signal,
+			});
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			controller.abort(reason);
+
+			await expect(destruction).rejects.toBe(reason);
+			finishCleanup();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(cacheCleanup).not.toHaveBeenCalled();
+			await expect(container.resolve(Database)).rejects.toThrow(
+				ContainerDestroyedError
+			);
+		});
+	});
+
+	describe('events', () => {
+		class Database {}
+
+		it('should emit created with the tag id and duration', async () => {
+			const listener = vi.fn();
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+			container.on('created', listener);
+
+			await container.resolve(Database);
+			await container.resolve(Database);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener).toHaveBeenCalledWith({
+				tag: Database,
+				id: 'Database',
+				scope: undefined,
+				duration: expect.any(Number) as number,
+			});
+		});
+
+		it('should emit creationFailed with the creation error', async () => {
+			const listener = vi.fn();
+			const container = Container.builder()
+				.add(Database, () => {
+					throw new Error('boom');
+				})
+				.build();
+			container.on('creationFailed', listener);
+
+			await expect(container.resolve(Database)).rejects.toThrow();
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			const [event] = listener.mock.calls[0] as [
+				{ id: string; error: unknown },
+			];
+			expect(event.id).toBe('Database');
+			expect(event.error).toBeInstanceOf(DependencyCreationError);
+		});
+
+		it('should emit finalized, finalizationFailed and destroyed', async () => {
+			const ConfigTag = Tag.of('config')<string>();
+			const failure = new Error('close failed');
+			const events: string[] = [];
+			const container = Container.builder()
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: () => {
+						throw failure;
+					},
+				})
+				.add(ConfigTag, { create: () => 'cfg', cleanup: vi.fn() })
+				.build();
+			container.on('finalized', ({ id }) =>
+				events.push(`finalized:${id}`)
+			);
+			container.on('finalizationFailed', ({ id, error }) => {
+				expect(error).toBe(failure);
+				events.push(`finalizationFailed:${id}`);
+			});
+			container.on('destroyed', () => events.push('destroyed'));
+
+			await container.resolveAll(Database, ConfigTag);
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+
+			expect(events).toHaveLength(3);
+			expect(events).toContain('finalized:config');
+			expect(events).toContain('finalizationFailed:Database');
+			expect(events[2]).toBe('destroyed');
+		});
+
+		it('should stop calling a listener after unsubscribing', async () => {
+			const listener = vi.fn();
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+			const off = container.on('created', listener);
+
+			off();
+			await container.resolve(Database);
+
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		it('should ignore errors thrown by listeners', async () => {
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+			container.on('created', () => {
+				throw new Error('listener failed');
+			});
+
+			await expect(container.resolve(Database)).resolves.toBeInstanceOf(
+				Database
+			);
+		});
+	});
+
+	describe('interceptors', () => {
+		class Database {}
+		class UserService {
+			constructor(readonly db: Database) {}
+		}
+
+		it('should wrap every factory invocation', async () => {
+			const calls: [string, string[], unknown][] = [];
+			const container = Container.builder()
+				.intercept(async (tag, next, info) => {
+					calls.push([
+						Tag.id(tag),
+						info.chain.map(Tag.id),
+						info.scope,
+					]);
+					return next();
+				})
+				.add(Database, () => new Database())
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+
+			await container.resolve(UserService);
+			await container.resolve(UserService);
+
+			expect(calls).toEqual([
+				['UserService', [], undefined],
+				['Database', ['UserService'], undefined],
+			]);
+		});
+
+		it('should run interceptors registered first outermost', async () => {
+			const order: string[] = [];
+			const container = Container.builder()
+				.intercept(async (_tag, next) => {
+					order.push('outer:before');
+					const instance = await next();
+					order.push('outer:after');
+					return instance;
+				})
+				.intercept(async (_tag, next) => {
+					order.push('inner:before');
+					const instance = await next();
+					order.push('inner:after');
+					return instance;
+				})
+				.add(Database, () => {
+					order.push('factory');
+					return new Database();
+				})
+				.build();
+
+			await container.resolve(Database);
+
+			expect(order).toEqual([
+				'outer:before',
+				'inner:before',
+				'factory',
+				'inner:after',
+				'outer:after',
+			]);
+		});
+
+		it('should use the value returned by the interceptor', async () => {
+			const replacement = new Database();
+			const container = Container.builder()
+				.intercept(() => replacement)
+				.add(Database, () => new Database())
+				.build();
+
+			expect(await container.resolve(Database)).toBe(replacement);
+		});
+
+		it('should wrap interceptor errors in DependencyCreationError', async () => {
+			const container = Container.builder()
+				.intercept(() => {
+					throw new Error('denied');
+				})
+				.add(Database, () => new Database())
+				.build();
+
+			await expect(container.resolve(Database)).rejects.toThrow(
+				DependencyCreationError
+			);
+		});
+
+		it('should wrap finalizers and destroy with lifecycle interceptors', async () => {
+			const order: string[] = [];
+			const container = Container.builder()
+				.intercept({
+					finalize: async (tag, next) => {
+						order.push(`finalize:${Tag.id(tag)}:before`);
+						await next();
+						order.push(`finalize:${Tag.id(tag)}:after`);
+					},
+					destroy: async (next, { scope }) => {
+						order.push(`destroy:${String(scope)}:before`);
+						await next();
+						order.push('destroy:after');
+					},
+				})
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: () => {
+						order.push('cleanup');
+					},
+				})
+				.build();
+
+			await container.resolve(Database);
+			await container.destroy();
+
+			expect(order).toEqual([
+				'destroy:undefined:before',
+				'finalize:Database:before',
+				'cleanup',
+				'finalize:Database:after',
+				'destroy:after',
+			]);
+		});
+
+		it('should count finalize interceptor errors as finalization failures', async () => {
+			const container = Container.builder()
+				.intercept({
+					finalize: () => {
+						throw new Error('denied');
+					},
+				})
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: vi.fn(),
+				})
+				.build();
+
+			await container.resolve(Database);
+
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+		});
+
+		it('should see factory errors from next()', async () => {
+			const errors: unknown[] = [];
+			const failure = new Error('boom');
+			const container = Container.builder()
+				.intercept(async (_tag, next) => {
+					try {
+						return await next();
+					} catch (error) {
+						errors.push(error);
+						throw error;
+					}
+				})
+				.add(Database, () => {
+					throw failure;
+				})
+				.build();
+
+			await expect(container.resolve(Database)).rejects.toThrow(
+				DependencyCreationError
+			);
+			expect(errors).toEqual([failure]);
+		});
+	});
+
+	describe('decorators', () => {
+		class UserRepo {
+			closed = 0;
+			find(id: number) {
+				return `user:${id}`;
+			}
+		}
+		class CachedUserRepo extends UserRepo {
+			constructor(readonly inner: UserRepo) {
+				super();
+			}
+			override find(id: number) {
+				return `cached:${this.inner.find(id)}`;
+			}
+		}
+
+		it('should expose the decorated instance', async () => {
+			const container = Container.builder()
+				.add(UserRepo, () => new UserRepo())
+				.decorate(UserRepo, (repo) => new CachedUserRepo(repo))
+				.build();
+
+			const repo = await container.resolve(UserRepo);
+
+			expect(repo).toBeInstanceOf(CachedUserRepo);
+			expect(repo.find(1)).toBe('cached:user:1');
+			expect(repo).toBe(await container.resolve(UserRepo));
+		});
+
+		it('should apply decorators in registration order', async () => {
+			const LabelTag = Tag.of('label')<string>();
+			const container = Container.builder()
+				.add(LabelTag, () => 'base')
+				.decorate(LabelTag, (label) => `${label}+a`)
+				.decorate(LabelTag, (label) => Promise.resolve(`${label}+b`))
+				.build();
+
+			expect(await container.resolve(LabelTag)).toBe('base+a+b');
+		});
+
+		it('should apply decorators registered before the factory', async () => {
+			const container = Container.builder()
+				.decorate(UserRepo, (repo) => new CachedUserRepo(repo))
+				.add(UserRepo, () => new UserRepo())
+				.build();
+
+			expect(await container.resolve(UserRepo)).toBeInstanceOf(
+				CachedUserRepo
+			);
+		});
+
+		it('should resolve decorator dependencies from the context', async () => {
+			const LabelTag = Tag.of('label')<string>();
+			const SuffixTag = Tag.of('suffix')<string>();
+			const container = Container.builder()
+				.add(SuffixTag, () => '!')
+				.add(LabelTag, () => 'base')
+				.decorate(
+					LabelTag,
+					async (label, ctx) => label + (await ctx.resolve(SuffixTag))
+				)
+				.build();
+
+			expect(await container.resolve(LabelTag)).toBe('base!');
+		});
+
+		it('should pass the original instance to the finalizer', async () => {
+			const original = new UserRepo();
+			const cleanup = vi.fn((repo: UserRepo) => {
+				repo.closed++;
+			});
+			const container = Container.builder()
+				.add(UserRepo, { create: () => original, cleanup })
+				.decorate(UserRepo, (repo) => new CachedUserRepo(repo))
+				.build();
+
+			await container.resolve(UserRepo);
+			await container.destroy();
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+			expect(cleanup).toHaveBeenCalledWith(original);
+			expect(original.closed).toBe(1);
+		});
+
+		it('should finalize each transient instance once', async () => {
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(UserRepo, {
+					create: () => new UserRepo(),
+					cleanup,
+					lifetime: 'transient',
+				})
+				.decorate(UserRepo, (repo) => new CachedUserRepo(repo))
+				.build();
+
+			const first = await container.resolve(UserRepo);
+			const second = await container.resolve(UserRepo);
+			await container.destroy();
+
+			expect(cleanup).toHaveBeenCalledTimes(2);
+			expect(cleanup).toHaveBeenCalledWith(
+				(first as CachedUserRepo).inner
+			);
+			expect(cleanup).toHaveBeenCalledWith(
+				(second as CachedUserRepo).inner
+			);
+		});
+
+		it('should wrap decorator errors in DependencyCreationError', async () => {
+			const container = Container.builder()
+				.add(UserRepo, () => new UserRepo())
+				.decorate(UserRepo, () => {
+					throw new Error('boom');
+				})
+				.build();
+
+			await expect(container.resolve(UserRepo)).rejects.toThrow(
+				DependencyCreationError
+			);
+		});
+
+		it('should finalize the original instance when a decorator fails', async () => {
+			const original = new UserRepo();
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(UserRepo, { create: () => original, cleanup })
+				.decorate(UserRepo, () => Promise.reject(new Error('boom')))
+				.build();
+
+			await expect(container.resolve(UserRepo)).rejects.toThrow(
+				DependencyCreationError
+			);
+			expect(() => container.resolveSync(UserRepo)).toThrow(
+				AsyncFactoryError
+			);
+			await container.destroy();
+
+			expect(cleanup).toHaveBeenCalledTimes(2);
+			expect(cleanup).toHaveBeenCalledWith(original);
+		});
+
+		it('should finalize the original of equal decorated values', async () => {
+			const CounterTag = Tag.of('counter')<number>();
+			const cleanup = vi.fn();
+			let created = 0;
+			const container = Container.builder()
+				.add(CounterTag, {
+					create: () => ++created,
+					cleanup,
+					lifetime: 'transient',
+				})
+				.decorate(CounterTag, () => 0)
+				.build();
+
+			expect(await container.resolve(CounterTag)).toBe(0);
+			expect(container.resolveSync(CounterTag)).toBe(0);
+			await container.destroy();
+
+			expect(
+				cleanup.mock.calls.map(([value]) => value as number).sort()
+			).toEqual([1, 2]);
+		});
+
+		it('should throw on build when the decorated tag has no factory', () => {
+			const builder = Container.builder().decorate(
+				UserRepo,
+				(repo) => repo
+			);
+
+			expect(() => builder.build()).toThrow(UnknownDependencyError);
+		});
+	});
+
+	describe('aliases', () => {
+		interface Logger {
+			log(message: string): string;
+		}
+		const LoggerTag = Tag.of('logger')<Logger>();
+		class PinoLogger {
+			closed = 0;
+			log(message: string) {
+				return `pino:${message}`;
+			}
+		}
+
+		it('should resolve an alias to the target instance', async () => {
+			const container = Container.builder()
+				.add(PinoLogger, () => new PinoLogger())
+				.alias(LoggerTag, PinoLogger)
+				.build();
+
+			const logger = await container.resolve(LoggerTag);
+
+			expect(logger).toBeInstanceOf(PinoLogger);
+			expect(logger).toBe(await container.resolve(PinoLogger));
+		});
+
+		it('should create and finalize the target once', async () => {
+			const create = vi.fn(() => new PinoLogger());
+			const container = Container.builder()
+				.add(PinoLogger, {
+					create,
+					cleanup: (logger) => {
+						logger.closed++;
+					},
+				})
+				.alias(LoggerTag, PinoLogger)
+				.build();
+
+			const [aliased, target] = await Promise.all([
+				container.resolve(LoggerTag),
+				container.resolve(PinoLogger),
+			]);
+			await container.destroy();
+
+			expect(aliased).toBe(target);
+			expect(create).toHaveBeenCalledTimes(1);
+			expect(target.closed).toBe(1);
+		});
+
+		it('should replace an existing registration for the alias', async () => {
+			const container = Container.builder()
+				.add(LoggerTag, () => ({ log: () => 'console' }))
+				.add(PinoLogger, () => new PinoLogger())
+				.alias(LoggerTag, PinoLogger)
+				.build();
+
+			const logger = await container.resolve(LoggerTag);
+
+			expect(logger.log('hi')).toBe('pino:hi');
+		});
+
+		it('should follow chained aliases', async () => {
+			const AuditLoggerTag = Tag.of('auditLogger')<Logger>();
+			const container = Container.builder()
+				.add(PinoLogger, () => new PinoLogger())
+				.alias(LoggerTag, PinoLogger)
+				.alias(AuditLoggerTag, LoggerTag)
+				.build();
+
+			expect(await container.resolve(AuditLoggerTag)).toBe(
+				await container.resolve(PinoLogger)
+			);
+		});
+
+		it('should detect circular aliases', async () => {
+			const OtherLoggerTag = Tag.of('otherLogger')<Logger>();
+			const container = Container.builder()
+				.alias(LoggerTag, OtherLoggerTag)
+				.alias(OtherLoggerTag, LoggerTag)
+				.build();
+
+			await expect(container.resolve(LoggerTag)).rejects.toThrow(
+				CircularDependencyError
+			);
+		});
+
+		it('should reject targets with incompatible types', () => {
+			const PortTag = Tag.of('port')<number>();
+
+			// @ts-expect-error - PinoLogger is not a number
+			Container.builder().alias(PortTag, PinoLogger);
+		});
+
+		it('should treat aliases as registered in resolveOptional()', async () => {
+			const container = Container.builder()
+				.add(PinoLogger, () => new PinoLogger())
+				.alias(LoggerTag, PinoLogger)
+				.build();
+
+			expect(await container.resolveOptional(LoggerTag)).toBe(
+				await container.resolve(PinoLogger)
+			);
+		});
+	});
+
+	describe('self-wired services', () => {
+		class Database {
+			query() {
+				return 'data';
+			}
+		}
+		const TableTag = Tag.of('table')<string>({ default: 'users' });
+
+		class UserRepository extends Tag.Service([Database, TableTag, 10]) {
+			constructor(
+				readonly db: Database,
+				readonly table: string,
+				readonly limit: number
+			) {
+				super();
+			}
+		}
+
+		it('should auto-register classes on first resolve', async () => {
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+
+			const repository = await container.resolve(UserRepository);
+
+			expect(repository).toBeInstanceOf(UserRepository);
+			expect(repository.db).toBe(await container.resolve(Database));
+			expect(repository.table).toBe('users');
+			expect(repository.limit).toBe(10);
+			expect(await container.resolve(UserRepository)).toBe(repository);
+		});
+
+		it('should resolve self-wired dependencies transitively', async () => {
+			class Clock extends Tag.Service() {}
+			class Scheduler extends Tag.Service([Clock]) {
+				constructor(readonly clock: Clock) {
+					super();
+				}
+			}
+
+			const scheduler = await Container.empty().resolve(Scheduler);
+
+			expect(scheduler.clock).toBeInstanceOf(Clock);
+		});
+
+		it('should prefer registered factories over the wiring', async () => {
+			const mock = new UserRepository(new Database(), 'mock', 1);
+			const container = Container.builder()
+				.add(UserRepository, () => mock)
+				.build();
+
+			expect(await container.resolve(UserRepository)).toBe(mock);
+		});
+
+		it('should run the static cleanup on destroy', async () => {
+			const cleaned: unknown[] = [];
+			class Connection extends Tag.Service() {
+				static cleanup(connection: Connection) {
+					cleaned.push(connection);
+				}
+			}
+
+			const container = Container.empty();
+			const connection = await container.resolve(Connection);
+			await container.destroy();
+
+			expect(cleaned).toEqual([connection]);
+		});
+
+		it('should report missing dependencies of the wiring', async () => {
+			await expect(
+				// @ts-expect-error - Database is not registered
+				Container.empty().resolve(UserRepository)
+			).rejects.toThrow(DependencyCreationError);
+		});
+
+		it('should initialize self-wired services passed to init()', async () => {
+			await expect(
+				// @ts-expect-error - Database is not registered
+				Container.empty().init([UserRepository])
+			).rejects.toThrow(DependencyInitializationError);
+		});
+
+		it('should type-check the dependencies of the wiring', async () => {
+			class Clock extends Tag.Service([Database]) {
+				constructor(readonly db: Database) {
+					super();
+				}
+			}
+			class Scheduler extends Tag.Service([Clock]) {
+				constructor(readonly clock: Clock) {
+					super();
+				}
+			}
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+
+			const scheduler = await container.resolve(Scheduler);
+
+			expect(scheduler.clock.db).toBeInstanceOf(Database);
+			await expect(
+				// @ts-expect-error - Database is required through Clock
+				Container.empty().resolve(Scheduler)
+			).rejects.toThrow(DependencyCreationError);
+		});
+
+		it('should type-check the constructor against the wiring', async () => {
+			class Report extends Tag.Service([Database]) {
+				constructor(readonly title: string) {
+					super();
+				}
+			}
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.build();
+
+			// @ts-expect-error - the constructor does not accept a Database
+			await container.resolve(Report);
+			// @ts-expect-error - the constructor does not accept a Database
+			expect(() => container.resolveSync(Report)).not.toThrow();
+		});
+	});
+
+	describe('dependency injection', () => {
+		it('should inject dependencies through factory function', async () => {
+			class Database {
+				query() {
+					return 'db-result';
+				}
+			}
+
+			class UserService {
+				constructor(private db: Database) {}
+				getUser() {
+					return this.db.query();
+				}
+			}
+
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+
+			const userService = await container.resolve(UserService);
+
+			expect(userService.getUser()).toBe('db-result');
+		});
+
+		it('should handle complex dependency graphs', async () => {
+			class Config {
+				getDbUrl() {
+					return 'db://localhost';
+				}
+			}
+
+			class Database {
+				constructor(private config: Config) {}
+				connect() {
+					return `Connected to ${this.config.getDbUrl()}`;
+				}
+			}
+
+			class Cache {}
+
+			class UserService {
+				constructor(
+					private db: Database,
+					private _cache: Cache
+				) {}
+				getUser() {
+					return `${this.db.connect()} with cache`;
+				}
+			}
+
+			const container = Container.builder()
+				.add(Config, () => new Config())
+				.add(
+					Database,
+					async (ctx) => new Database(await ctx.resolve(Config))
+				)
+				.add(Cache, () => new Cache())
+				.add(UserService, async (ctx) => {
+					const [db, cache] = await ctx.resolveAll(Database, Cache);
+					return new UserService(db, cache);
+				})
+				.build();
+
+			const userService = await container.resolve(UserService);
+
+			expect(userService.getUser()).toBe(
+				'Connected to db://localhost with cache'
+			);
+		});
+
+		it('should detect circular dependencies', async () => {
+			class ServiceA {
+				constructor(private _b: ServiceB) {}
+			}
+
+			class ServiceB {
+				constructor(private _a: ServiceA) {}
+			}
+
+			const container = Container.builder()
+				.add(
+					ServiceA,
+					// @ts-expect-error - circular dependency
+					async (ctx) => new ServiceA(await ctx.resolve(ServiceB))
+				)
+				.add(
+					ServiceB,
+					async (ctx) => new ServiceB(await ctx.resolve(ServiceA))
+				)
+				.build();
+
+			try {
+				await container.resolve(ServiceA);
+				expect.fail('Should have thrown');
+			} catch (error) {
+				expect(error).toBeInstanceOf(DependencyCreationError);
+				const rootCause = (
+					error as DependencyCreationError
+				).getRootCause();
+				expect(rootCause).toBeInstanceOf(CircularDependencyError);
+			}
+		});
+	});
+
+	describe('destroy()', () => {
+		it('should call finalizers for instantiated dependencies', async () => {
+			class TestService {
+				cleanup = vi.fn() as () => void;
+			}
+
+			const finalizer = vi.fn((instance: TestService) => {
+				instance.cleanup();
+			});
+
+			const container = Container.builder()
+				.add(TestService, {
+					create: () => new TestService(),
+					cleanup: finalizer,
+				})
+				.build();
+
+			const instance = await container.resolve(TestService);
+			await container.destroy();
+
+			expect(finalizer).toHaveBeenCalledWith(instance);
+			expect(instance.cleanup).toHaveBeenCalled();
+		});
+
+		it('should not call finalizers for non-instantiated dependencies', async () => {
+			class TestService {}
+
+			const finalizer = vi.fn();
+
+			const container = Container.builder()
+				.add(TestService, {
+					create: () => new TestService(),
+					cleanup: finalizer,
+				})
+				.build();
+
+			await container.destroy();
+
+			expect(finalizer).not.toHaveBeenCalled();
+		});
+
+		it('should handle async finalizers', async () => {
+			class TestService {
+				asyncCleanup = vi
+					.fn()
+					.mockResolvedValue(undefined) as () => Promise<void>;
+			}
+
+			const container = Container.builder()
+				.add(TestService, {
+					create: () => new TestService(),
+					cleanup: (instance) => instance.asyncCleanup(),
+				})
+				.build();
+
+			const instance = await container.resolve(TestService);
+			await container.destroy();
+
+			expect(instance.asyncCleanup).toHaveBeenCalled();
+		});
+
+		it('should collect finalizer errors', async () => {
+			class ServiceA {}
+			class ServiceB {}
+
+			const container = Container.builder()
+				.add(ServiceA, {
+					create: () => new ServiceA(),
+					cleanup: () => {
+						throw new Error('Finalizer A error');
+					},
+				})
+				.add(ServiceB, {
+					create: () => new ServiceB(),
+					cleanup: () => {
+						throw new Error('Finalizer B error');
+					},
+				})
+				.build();
+
+			await container.resolve(ServiceA);
+			await container.resolve(ServiceB);
+
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+		});
+
+		it('should be idempotent', async () => {
+			class TestService {}
+
+			const container = Container.builder()
+				.add(TestService, () => new TestService())
+				.build();
+
+			await container.destroy();
+			await expect(container.destroy()).resolves.toBeUndefined();
+		});
+
+		it('should run finalizers once when destroyed concurrently', async () => {
+			class TestService {}
+			const cleanup = vi.fn(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+			});
+
+			const container = Container.builder()
+				.add(TestService, { create: () => new TestService(), cleanup })
+				.build();
+			await container.resolve(TestService);
+
+			await Promise.all([container.destroy(), container.destroy()]);
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should finalize dependents before their dependencies', async () => {
+			const order: string[] = [];
+			const delay = () =>
+				new Promise((resolve) => setTimeout(resolve, 5));
+
+			class ConnectionPool {}
+			class HttpServer {
+				constructor(public pool: ConnectionPool) {}
+			}
+
+			const container = Container.builder()
+				.add(ConnectionPool, {
+					create: () => new ConnectionPool(),
+					cleanup: () => {
+						order.push('pool');
+					},
+				})
+				.add(HttpServer, {
+					create: async (ctx) =>
+						new HttpServer(await ctx.resolve(ConnectionPool)),
+					cleanup: async () => {
+						await delay();
+						order.push('server');
+					},
+				})
+				.build();
+
+			await container.resolve(HttpServer);
+			await container.destroy();
+
+			expect(order).toEqual(['server', 'pool']);
+		});
+
+		it('should respect transitive dependencies without finalizers', async () => {
+			const order: string[] = [];
+			const delay = () =>
+				new Promise((resolve) => setTimeout(resolve, 5));
+
+			class Pool {}
+			class Repository {}
+			class Server {}
+
+			const container = Container.builder()
+				.add(Pool, {
+					create: () => new Pool(),
+					cleanup: () => {
+						order.push('pool');
+					},
+				})
+				.add(Repository, async (ctx) => {
+					await ctx.resolve(Pool);
+					return new Repository();
+				})
+				.add(Server, {
+					create: async (ctx) => {
+						await ctx.resolve(Repository);
+						return new Server();
+					},
+					cleanup: async () => {
+						await delay();
+						order.push('server');
+					},
+				})
+				.build();
+
+			await container.resolve(Server);
+			await container.destroy();
+
+			expect(order).toEqual(['server', 'pool']);
+		});
+
+		it('should finalize independent dependencies concurrently', async () => {
+			const events: string[] = [];
+			const delay = () =>
+				new Promise((resolve) => setTimeout(resolve, 5));
+
+			class ServiceA {}
+			class ServiceB {}
+
+			const container = Container.builder()
+				.add(ServiceA, {
+					create: () => new ServiceA(),
+					cleanup: async () => {
+						events.push('a:start');
+						await delay();
+						events.push('a:end');
+					},
+				})
+				.add(ServiceB, {
+					create: () => new ServiceB(),
+					cleanup: async () => {
+						events.push('b:start');
+						await delay();
+						events.push('b:end');
+					},
+				})
+				.build();
+
+			await container.resolveAll(ServiceA, ServiceB);
+			await container.destroy();
+
+			expect(events.slice(0, 2).sort()).toEqual(['a:start', 'b:start']);
+		});
+
+		it('should finalize dependencies even when a dependent finalizer fails', async () => {
+			class Pool {}
+			class Server {}
+
+			const poolCleanup = vi.fn();
+			const container = Container.builder()
+				.add(Pool, { create: () => new Pool(), cleanup: poolCleanup })
+				.add(Server, {
+					create: async (ctx) => {
+						await ctx.resolve(Pool);
+						return new Server();
+					},
+					cleanup: () => {
+						throw new Error('Server cleanup failed');
+					},
+				})
+				.build();
+
+			await container.resolve(Server);
+
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+			expect(poolCleanup).toHaveBeenCalled();
+		});
+
+		it('should finalize transient dependents before shared dependencies', async () => {
+			const order: string[] = [];
+
+			class Pool {}
+			class Handler {}
+
+			const container = Container.builder()
+				.add(Pool, {
+					create: () => new Pool(),
+					cleanup: () => {
+						order.push('pool');
+					},
+				})
+				.add(Handler, {
+					create: async (ctx) => {
+						await ctx.resolve(Pool);
+						return new Handler();
+					},
+					cleanup: async () => {
+						await Promise.resolve();
+						order.push('handler');
+					},
+					lifetime: 'transient',
+				})
+				.build();
+
+			await container.resolve(Handler);
+			await container.resolve(Handler);
+			await container.destroy();
+
+			expect(order).toEqual(['handler', 'handler', 'pool']);
+		});
+
+		it('should finalize instances whose factories complete during destroy', async () => {
+			class Connection {}
+			let finish: (connection: Connection) => void = () => undefined;
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Connection, {
+					// Ignores ctx.signal, so destroy has to wait for it
+					create: () =>
+						new Promise<Connection>((resolve) => {
+							finish = resolve;
+						}),
+					cleanup,
+				})
+				.build();
+
+			const resolution = container.resolve(Connection);
+			const destruction = container.destroy();
+			const connection = new Connection();
+			finish(connection);
+
+			await destruction;
+			expect(await resolution).toBe(connection);
+			expect(cleanup).toHaveBeenCalledWith(connection);
+		});
+
+		it('should not report cancelled factories as finalization failures', async () => {
+			class Connection {}
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Connection, {
+					create: (ctx) =>
+						new Promise<Connection>((_, reject) => {
+							ctx.signal.addEventListener('abort', () => {
+								reject(new Error('Connect cancelled'));
+							});
+						}),
+					cleanup,
+				})
+				.build();
+
+			const resolution = container.resolve(Connection);
+			await expect(container.destroy()).resolves.toBeUndefined();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(cleanup).not.toHaveBeenCalled();
+		});
+
+		it('should not create new instances while destroying', async () => {
+			class Connection {}
+			class Repository {}
+			let proceed: () => void = () => undefined;
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Connection, { create: () => new Connection(), cleanup })
+				.add(Repository, {
+					create: async (ctx) => {
+						await new Promise<void>((resolve) => {
+							proceed = resolve;
+						});
+						await ctx.resolve(Connection);
+						return new Repository();
+					},
+					cleanup: vi.fn(),
+				})
+				.build();
+
+			const resolution = container.resolve(Repository);
+			const destruction = container.destroy();
+			proceed();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			const error: unknown = await resolution.catch((e: unknown) => e);
+			expect(
+				(error as DependencyCreationError).getRootCause()
+			).toBeInstanceOf(ContainerDestroyedError);
+			await destruction;
+			expect(cleanup).not.toHaveBeenCalled();
+		});
+
+		it('should make container unusable after destroy', async () => {
+			class TestService {}
+
+			const container = Container.builder()
+				.add(TestService, () => new TestService())
+				.build();
+
+			await container.destroy();
+
+			await expect(container.resolve(TestService)).rejects.toThrow(
+				ContainerDestroyedError
+			);
+		});
+	});
+
+	describe('explicit resource management', () => {
+		class Connection {
+			readonly dispose = vi.fn(() => Promise.resolve());
+
+			[Symbol.asyncDispose]() {
+				return this.dispose();
+			}
+		}
+
+		class Timer {
+			readonly dispose = vi.fn();
+
+			[Symbol.dispose]() {
+				this.dispose();
+			}
+		}
+
+		it('should destroy the container at the end of an await using block', async () => {
+			const cleanup = vi.fn();
+			{
+				await using container = Container.builder()
+					.add(Connection, {
+						create: () => new Connection(),
+						cleanup,
+					})
+					.build();
+				await container.resolve(Connection);
+				expect(cleanup).not.toHaveBeenCalled();
+			}
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should dispose async disposable instances without a cleanup function', async () => {
+			const container = Container.builder()
+				.add(Connection, () => new Connection())
+				.build();
+
+			const connection = await container.resolve(Connection);
+			await container.destroy();
+
+			expect(connection.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should dispose disposable instances without a cleanup function', async () => {
+			const container = Container.builder()
+				.add(Timer, () => new Timer())
+				.build();
+
+			const timer = await container.resolve(Timer);
+			await container.destroy();
+
+			expect(timer.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should prefer Symbol.asyncDispose over Symbol.dispose', async () => {
+			class Both extends Connection {
+				readonly syncDispose = vi.fn();
+
+				[Symbol.dispose]() {
+					this.syncDispose();
+				}
+			}
+			const container = Container.builder()
+				.add(Both, () => new Both())
+				.build();
+
+			const both = await container.resolve(Both);
+			await container.destroy();
+
+			expect(both.dispose).toHaveBeenCalledTimes(1);
+			expect(both.syncDispose).not.toHaveBeenCalled();
+		});
+
+		it('should use the cleanup function instead of disposing', async () => {
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.add(Connection, { create: () => new Connection(), cleanup })
+				.build();
+
+			const connection = await container.resolve(Connection);
+			await container.destroy();
+
+			expect(cleanup).toHaveBeenCalledWith(connection);
+			expect(connection.dispose).not.toHaveBeenCalled();
+		});
+
+		it('should not dispose instances when autoDispose is false', async () => {
+			const container = Container.builder()
+				.add(Connection, {
+					create: () => new Connection(),
+					autoDispose: false,
+				})
+				.build();
+
+			const connection = await container.resolve(Connection);
+			await container.destroy();
+
+			expect(connection.dispose).not.toHaveBeenCalled();
+		});
+
+		it('should dispose the original instance of decorated dependencies', async () => {
+			const ClientTag = Tag.of('client')<{
+				dispose: () => Promise<void>;
+			}>();
+			const connection = new Connection();
+			const container = Container.builder()
+				.add(ClientTag, () => connection)
+				// The wrapper itself is not disposable
+				.decorate(ClientTag, (client) => ({ dispose: client.dispose }))
+				.build();
+
+			const decorated = await container.resolve(ClientTag);
+			await container.destroy();
+
+			expect(decorated).not.toBe(connection);
+			expect(connection.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not dispose default values of tags', async () => {
+			const connection = new Connection();
+			const ConnectionTag = Tag.of('connection')<Connection>({
+				default: connection,
+			});
+			const container = Container.empty();
+
+			await container.resolve(ConnectionTag);
+			await container.destroy();
+
+			expect(connection.dispose).not.toHaveBeenCalled();
+		});
+
+		it('should dispose contributed elements without a cleanup function', async () => {
+			const TimersTag = Tag.many('timers')<Timer>();
+			const SchedulesTag = Tag.map('schedules')<Timer>();
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.contribute(TimersTag, () => new Timer())
+				.contribute(TimersTag, { create: () => new Timer(), cleanup })
+				.contribute(TimersTag, {
+					create: () => new Timer(),
+					autoDispose: false,
+				})
+				.contributeEntry(
+					SchedulesTag,
+					'hourly',
+					() => new Timer(),
+					'app'
+				)
+				.build();
+
+			const [disposed, cleaned, kept] =
+				await container.resolve(TimersTag);
+			const schedules = await container.resolve(SchedulesTag);
+			await container.destroy();
+
+			expect(disposed!.dispose).toHaveBeenCalledTimes(1);
+			expect(cleanup).toHaveBeenCalledWith(cleaned);
+			expect(cleaned!.dispose).not.toHaveBeenCalled();
+			expect(kept!.dispose).not.toHaveBeenCalled();
+			expect(schedules.get('hourly')!.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not dispose elements contributed by layers', async () => {
+			const TimersTag = Tag.many('timers')<Timer>();
+			const timer = new Timer();
+			const container = Container.from(
+				Layer.mergeAll(
+					Layer.service(Timer, []),
+					Layer.contribute(TimersTag, Timer),
+					Layer.contribute(TimersTag, timer)
+				)
+			);
+
+			const [registered] = await container.resolve(TimersTag);
+			await container.destroy();
+
+			expect(registered!.dispose).toHaveBeenCalledTimes(1);
+			expect(timer.dispose).not.toHaveBeenCalled();
+		});
+
+		it('should dispose instances created by default factories of tags', async () => {
+			const TimerTag = Tag.of('timer')<Timer>({
+				defaultFactory: () => new Timer(),
+			});
+			const container = Container.empty();
+
+			const timer = await container.resolve(TimerTag);
+			await container.destroy();
+
+			expect(timer.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should dispose every transient instance', async () => {
+			const container = Container.builder()
+				.add(Timer, {
+					create: () => new Timer(),
+					lifetime: 'transient',
+				})
+				.build();
+
+			const first = await container.resolve(Timer);
+			const second = await container.resolve(Timer);
+			await container.destroy();
+
+			expect(first.dispose).toHaveBeenCalledTimes(1);
+			expect(second.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should dispose self-wired services', async () => {
+			class Pool extends Tag.Service([]) {
+				readonly dispose = vi.fn();
+
+				[Symbol.dispose]() {
+					this.dispose();
+				}
+			}
+			const container = Container.empty();
+
+			const pool = await container.resolve(Pool);
+			await container.destroy();
+
+			expect(pool.dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not report a finalizer for instances that are not disposable', async () => {
+			class Plain {}
+			const container = Container.builder()
+				.add(Plain, () => new Plain())
+				.add(Timer, () => new Timer())
+				.build();
+
+			await container.resolveAll(Plain, Timer);
+			const { nodes } = container.graph();
+
+			expect(nodes.find((node) => node.tag === Plain)?.hasFinalizer).toBe(
+				false
+			);
+			expect(nodes.find((node) => node.tag === Timer)?.hasFinalizer).toBe(
+				true
+			);
+		});
+	});
+
+	describe('transient lifetime', () => {
+		it('should create a new instance on every resolve', async () => {
+			class RequestHandler {}
+
+			const factory = vi.fn(() => new RequestHandler());
+			const container = Container.builder()
+				.add(RequestHandler, { create: factory, lifetime: 'transient' })
+				.build();
+
+			const first = await container.resolve(RequestHandler);
+			const second = await container.resolve(RequestHandler);
+
+			expect(first).toBeInstanceOf(RequestHandler);
+			expect(second).toBeInstanceOf(RequestHandler);
+			expect(first).not.toBe(second);
+			expect(factory).toHaveBeenCalledTimes(2);
+		});
+
+		it('should create separate instances for concurrent resolves', async () => {
+			class RequestHandler {}
+
+			const container = Container.builder()
+				.add(RequestHandler, {
+					create: async () => {
+						await new Promise((resolve) => setTimeout(resolve, 5));
+						return new RequestHandler();
+					},
+					lifetime: 'transient',
+				})
+				.build();
+
+			const [first, second] = await Promise.all([
+				container.resolve(RequestHandler),
+				container.resolve(RequestHandler),
+			]);
+
+			expect(first).not.toBe(second);
+		});
+
+		it('should inject a fresh instance into each dependent', async () => {
+			class Builder {}
+			class ServiceA {
+				constructor(public builder: Builder) {}
+			}
+			class ServiceB {
+				constructor(public builder: Builder) {}
+			}
+
+			const container = Container.builder()
+				.add(Builder, {
+					create: () => new Builder(),
+					lifetime: 'transient',
+				})
+				.add(
+					ServiceA,
+					async (ctx) => new ServiceA(await ctx.resolve(Builder))
+				)
+				.add(
+					ServiceB,
+					async (ctx) => new ServiceB(await ctx.resolve(Builder))
+				)
+				.build();
+
+			const [a, b] = await container.resolveAll(ServiceA, ServiceB);
+
+			expect(a.builder).not.toBe(b.builder);
+			// Singletons depending on a transient are still cached
+			expect(await container.resolve(ServiceA)).toBe(a);
+		});
+
+		it('should run the finalizer once per created instance on destroy', async () => {
+			class RequestHandler {}
+
+			const finalizer = vi.fn();
+			const container = Container.builder()
+				.add(RequestHandler, {
+					create: () => new RequestHandler(),
+					cleanup: finalizer,
+					lifetime: 'transient',
+				})
+				.build();
+
+			const first = await container.resolve(RequestHandler);
+			const second = await container.resolve(RequestHandler);
+			const third = await container.resolve(RequestHandler);
+
+			await container.destroy();
+
+			expect(finalizer).toHaveBeenCalledTimes(3);
+			expect(finalizer).toHaveBeenCalledWith(first);
+			expect(finalizer).toHaveBeenCalledWith(second);
+			expect(finalizer).toHaveBeenCalledWith(third);
+		});
+
+		it('should not finalize instances whose creation failed', async () => {
+			class RequestHandler {}
+
+			const finalizer = vi.fn();
+			let attempt = 0;
+			const container = Container.builder()
+				.add(RequestHandler, {
+					create: () => {
+						attempt++;
+						if (attempt === 1) {
+							throw new Error('Creation failed');
+						}
+						return new RequestHandler();
+					},
+					cleanup: finalizer,
+					lifetime: 'transient',
+				})
+				.build();
+
+			await expect(container.resolve(RequestHandler)).rejects.toThrow(
+				DependencyCreationError
+			);
+			const instance = await container.resolve(RequestHandler);
+
+			await container.destroy();
+
+			expect(finalizer).toHaveBeenCalledTimes(1);
+			expect(finalizer).toHaveBeenCalledWith(instance);
+		});
+
+		it('should collect finalizer errors from transient instances', async () => {
+			class RequestHandler {}
+
+			const container = Container.builder()
+				.add(RequestHandler, {
+					create: () => new RequestHandler(),
+					cleanup: () => {
+						throw new Error('Finalizer error');
+					},
+					lifetime: 'transient',
+				})
+				.build();
+
+			await container.resolve(RequestHandler);
+			await container.resolve(RequestHandler);
+
+			try {
+				await container.destroy();
+				expect.fail('Should have thrown');
+			} catch (error) {
+				expect(error).toBeInstanceOf(DependencyFinalizationError);
+				expect(
+					(error as DependencyFinalizationError).getRootCauses()
+				).toHaveLength(2);
+			}
+		});
+
+		it('should reset lifetime when re-registered with a plain factory', async () => {
+			class RequestHandler {}
+
+			const container = Container.builder()
+				.add(RequestHandler, {
+					create: () => new RequestHandler(),
+					lifetime: 'transient',
+				})
+				.add(RequestHandler, () => new RequestHandler())
+				.build();
+
+			const first = await container.resolve(RequestHandler);
+			const second = await container.resolve(RequestHandler);
+
+			expect(first).toBe(second);
+		});
+
+		it('should keep transient instances in the child scope that created them', async () => {
+			class RequestHandler {}
+
+			const finalizer = vi.fn();
+			const parent = ScopedContainer.builder('app').build();
+			const child = parent
+				.child('request')
+				.add(RequestHandler, {
+					create: () => new RequestHandler(),
+					cleanup: finalizer,
+					lifetime: 'transient',
+				})
+				.build();
+
+			await child.resolve(RequestHandler);
+			await child.resolve(RequestHandler);
+			await child.destroy();
+
+			expect(finalizer).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('multi-bindings', () => {
+		interface Plugin {
+			name: string;
+		}
+		const PluginsTag = Tag.many('plugins')<Plugin>();
+
+		it('should resolve contributions in registration order', async () => {
+			const container = Container.builder()
+				.contribute(PluginsTag, () => ({ name: 'metrics' }))
+				.contribute(PluginsTag, async () => {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					return { name: 'audit' };
+				})
+				.contribute(PluginsTag, () => ({ name: 'tracing' }))
+				.build();
+
+			const plugins = await container.resolve(PluginsTag);
+
+			expect(plugins.map((plugin) => plugin.name)).toEqual([
+				'metrics',
+				'audit',
+				'tracing',
+			]);
+		});
+
+		it('should cache the collection as a singleton', async () => {
+			const container = Container.builder()
+				.contribute(PluginsTag, () => ({ name: 'metrics' }))
+				.build();
+
+			const first = await container.resolve(PluginsTag);
+			const second = await container.resolve(PluginsTag);
+
+			expect(first).toBe(second);
+		});
+
+		it('should inject dependencies into contributions', async () => {
+			class Database {}
+
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.contribute(PluginsTag, async (ctx) => {
+					const db = await ctx.resolve(Database);
+					return { name: db.constructor.name };
+				})
+				.build();
+
+			expect(await container.resolve(PluginsTag)).toEqual([
+				{ name: 'Database' },
+			]);
+		});
+
+		it('should run each contribution cleanup with its own element', async () => {
+			const cleaned: string[] = [];
+			const container = Container.builder()
+				.contribute(PluginsTag, {
+					create: () => ({ name: 'metrics' }),
+					cleanup: (plugin) => {
+						cleaned.push(plugin.name);
+					},
+				})
+				.contribute(PluginsTag, () => ({ name: 'audit' }))
+				.contribute(PluginsTag, {
+					create: () => ({ name: 'tracing' }),
+					cleanup: (plugin) => {
+						cleaned.push(plugin.name);
+					},
+				})
+				.build();
+
+			await container.resolve(PluginsTag);
+			await container.destroy();
+
+			expect(cleaned.sort()).toEqual(['metrics', 'tracing']);
+		});
+
+		it('should report failing contribution cleanups', async () => {
+			const container = Container.builder()
+				.contribute(PluginsTag, {
+					create: () => ({ name: 'metrics' }),
+					cleanup: () => {
+						throw new Error('cleanup failed');
+					},
+				})
+				.build();
+
+			await container.resolve(PluginsTag);
+
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+		});
+
+		it('should wrap failing contributions in DependencyCreationError', async () => {
+			const container = Container.builder()
+				.contribute(PluginsTag, () => ({ name: 'metrics' }))
+				.contribute(PluginsTag, () => {
+					throw new Error('boom');
+				})
+				.build();
+
+			await expect(container.resolve(PluginsTag)).rejects.toThrow(
+				DependencyCreationError
+			);
+		});
+
+		it('should finalize the created elements when a contribution fails', async () => {
+			const cleaned: string[] = [];
+			const cleanup = (plugin: Plugin) => {
+				cleaned.push(plugin.name);
+			};
+			const container = Container.builder()
+				.contribute(PluginsTag, {
+					create: () => ({ name: 'metrics' }),
+					cleanup,
+				})
+				.contribute(PluginsTag, async () => {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					return { name: 'audit' };
+				})
+				.contribute(PluginsTag, {
+					create: async () => {
+						await new Promise((resolve) => setTimeout(resolve, 10));
+						return { name: 'tracing' };
+					},
+					cleanup,
+				})
+				.contribute(PluginsTag, () => Promise.reject(new Error('boom')))
+				.build();
+
+			await expect(container.resolve(PluginsTag)).rejects.toThrow(
+				DependencyCreationError
+			);
+
+			expect(cleaned.sort()).toEqual(['metrics', 'tracing']);
+		});
+
+		it('should finalize the created elements when a contribution throws', async () => {
+			const cleanup = vi.fn();
+			const container = Container.builder()
+				.contribute(PluginsTag, {
+					create: () => ({ name: 'metrics' }),
+					cleanup,
+				})
+				.contribute(PluginsTag, () => {
+					throw new Error('boom');
+				})
+				.build();
+
+			await expect(container.resolve(PluginsTag)).rejects.toThrow(
+				DependencyCreationError
+			);
+
+			await vi.waitFor(() => {
+				expect(cleanup).toHaveBeenCalledWith({ name: 'metrics' });
+			});
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should replace all contributions when add() is called', async () => {
+			const container = Container.builder()
+				.contribute(PluginsTag, () => ({ name: 'metrics' }))
+				.add(PluginsTag, () => [{ name: 'replaced' }])
+				.contribute(PluginsTag, () => ({ name: 'audit' }))
+				.build();
+
+			expect(await container.resolve(PluginsTag)).toEqual([
+				{ name: 'audit' },
+			]);
+		});
+
+		it('should keep contributions separate per tag', async () => {
+			const HealthChecksTag = Tag.many('healthChecks')<() => boolean>();
+
+			const container = Container.builder()
+				.contribute(PluginsTag, () => ({ name: 'metrics' }))
+				.contribute(HealthChecksTag, () => () => true)
+				.build();
+
+			expect(await container.resolve(PluginsTag)).toHaveLength(1);
+			expect(await container.resolve(HealthChecksTag)).toHaveLength(1);
+		});
+	});
+
+	describe('map multi-bindings', () => {
+		interface Command {
+			run(): string;
+		}
+		const CommandsTag = Tag.map('commands')<Command>();
+
+		it('should resolve entries as a Map in registration order', async () => {
+			const container = Container.builder()
+				.contributeEntry(
+					CommandsTag,
+					'migrate',
+					() => ({ run: () => 'migrated' }),
+					'DatabaseModule'
+				)
+				.contributeEntry(
+					CommandsTag,
+					'seed',
+					async () => {
+						await new Promise((resolve) => setTimeout(resolve, 5));
+						return { run: () => 'seeded' };
+					},
+					'DatabaseModule'
+				)
+				.build();
+
+			const commands = await container.resolve(CommandsTag);
+
+			expect(commands).toBeInstanceOf(Map);
+			expect([...commands.keys()]).toEqual(['migrate', 'seed']);
+			expect(commands.get('seed')?.run()).toBe('seeded');
+		});
+
+		it('should throw DuplicateEntryKeyError naming both contributors', () => {
+			const builder = Container.builder().contributeEntry(
+				CommandsTag,
+				'migrate',
+				() => ({ run: () => 'first' }),
+				'DatabaseModule'
+			);
+
+			expect(() =>
+				builder.contributeEntry(
+					CommandsTag,
+					'migrate',
+					() => ({ run: () => 'second' }),
+					'LegacyModule'
+				)
+			).toThrow(
+				'Duplicate key "migrate" for "commands": contributed by "DatabaseModule" and "LegacyModule"'
+			);
+		});
+
+		it('should require a contributor name', () => {
+			const builder = Container.builder();
+
+			expect(() =>
+				// @ts-expect-error - source is required
+				builder.contributeEntry(CommandsTag, 'migrate', () => ({
+					run: () => 'migrated',
+				}))
+			).not.toThrow();
+		});
+
+		it('should run each entry cleanup with its own value', async () => {
+			const cleaned: string[] = [];
+			const container = Container.builder()
+				.contributeEntry(
+					CommandsTag,
+					'migrate',
+					{
+						create: () => ({ run: () => 'migrated' }),
+						cleanup: (command) => {
+							cleaned.push(command.run());
+						},
+					},
+					'DatabaseModule'
+				)
+				.contributeEntry(
+					CommandsTag,
+					'seed',
+					() => ({ run: () => 'seeded' }),
+					'DatabaseModule'
+				)
+				.build();
+
+			await container.resolve(CommandsTag);
+			await container.destroy();
+
+			expect(cleaned).toEqual(['migrated']);
+		});
+
+		it('should replace all entries when add() is called', async () => {
+			const container = Container.builder()
+				.contributeEntry(
+					CommandsTag,
+					'migrate',
+					() => ({ run: () => 'migrated' }),
+					'DatabaseModule'
+				)
+				.add(CommandsTag, () => new Map())
+				.contributeEntry(
+					CommandsTag,
+					'migrate',
+					() => ({ run: () => 'replaced' }),
+					'LegacyModule'
+				)
+				.build();
+
+			const commands = await container.resolve(CommandsTag);
+
+			expect(commands.size).toBe(1);
+			expect(commands.get('migrate')?.run()).toBe('replaced');
+		});
+	});
+
+	describe('init()', () => {
+		it('should instantiate every singleton and report timings', async () => {
+			class Database {}
+			class UserService {}
+
+			const container = Container.builder()
+				.add(Database, async () => {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					return new Database();
+				})
+				.add(UserService, async (ctx) => {
+					await ctx.resolve(Database);
+					return new UserService();
+				})
+				.build();
+
+			const report = await container.init();
+
+			expect(report.timings.map((t) => t.id)).toEqual([
+				'Database',
+				'UserService',
+			]);
+			expect(report.timings[0]?.tag).toBe(Database);
+			for (const timing of report.timings) {
+				expect(timing.duration).toBeGreaterThanOrEqual(0);
+			}
+			expect(report.duration).toBeGreaterThanOrEqual(0);
+			expect(container.graph().nodes.every((n) => n.instantiated)).toBe(
+				true
+			);
+		});
+
+		it('should only report factories that ran during initialization', async () => {
+			class Database {}
+			class Cache {}
+
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.add(Cache, () => new Cache())
+				.build();
+
+			await container.resolve(Database);
+			const report = await container.init();
+
+			expect(report.timings.map((t) => t.id)).toEqual(['Cache']);
+		});
+
+		it('should initialize only the selected tags and their dependencies', async () => {
+			class Database {}
+			class UserService {}
+			class Cache {}
+
+			const cacheFactory = vi.fn(() => new Cache());
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.add(UserService, async (ctx) => {
+					await ctx.resolve(Database);
+					return new UserService();
+				})
+				.add(Cache, cacheFactory)
+				.build();
+
+			const report = await container.init([UserService]);
+
+			expect(report.timings.map((t) => t.id)).toEqual([
+				'Database',
+				'UserService',
+			]);
+			expect(cacheFactory).not.toHaveBeenCalled();
+		});
+
+		it('should skip transient and scope-bound registrations', async () => {
+			class Handler {}
+			class Session {}
+
+			const handlerFactory = vi.fn(() => new Handler());
+			const sessionFactory = vi.fn(() => new Session());
+			const container = ScopedContainer.builder('app')
+				.add(Handler, { create: handlerFactory, lifetime: 'transient' })
+				.add(Session, { create: sessionFactory, scope: 'request' })
+				.build();
+
+			const report = await container.init();
+
+			expect(report.timings).toEqual([]);
+			expect(handlerFactory).not.toHaveBeenCalled();
+			expect(sessionFactory).not.toHaveBeenCalled();
+		});
+
+		it('should initialize independent branches in parallel', async () => {
+			const events: string[] = [];
+			const slow = (name: string) => async () => {
+				events.push(`${name}:start`);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				events.push(`${name}:end`);
+				return {};
+			};
+
+			const A = Tag.of('A')<object>();
+			const B = Tag.of('B')<object>();
+			const container = Container.builder()
+				.add(A, slow('a'))
+				.add(B, slow('b'))
+				.build();
+
+			await container.init();
+
+			expect(events.slice(0, 2)).toEqual(['a:start', 'b:start']);
+		});
+
+		it('should aggregate failures and keep initializing the rest', async () => {
+			class Database {}
+			class Broker {}
+			class Cache {}
+
+			const container = Container.builder()
+				.add(Database, () => {
+					throw new Error('Database down');
+				})
+				.add(Broker, () => {
+					throw new Error('Broker down');
+				})
+				.add(Cache, () => new Cache())
+				.build();
+
+			try {
+				await container.init();
+				expect.fail('Should have thrown');
+			} catch (error) {
+				expect(error).toBeInstanceOf(DependencyInitializationError);
+				const causes = (
+					error as DependencyInitializationError
+				).getRootCauses();
+				expect(causes).toHaveLength(2);
+				expect(causes[0]).toBeInstanceOf(DependencyCreationError);
+				expect(causes[1]).toBeInstanceOf(DependencyCreationError);
+			}
+
+			const cache = container
+				.graph()
+				.nodes.find((node) => node.tag === Cache);
+			expect(cache?.instantiated).toBe(true);
+		});
+
+		it('should throw when the container has been destroyed', async () => {
+			const container = Container.empty();
+			await container.destroy();
+
+			await expect(container.init()).rejects.toThrow(
+				ContainerDestroyedError
+			);
+		});
+	});
+
+	describe('graph()', () => {
+		it('should list registered tags without instantiating them', () => {
+			class Database {}
+			const ConfigTag = Tag.of('config')<{ url: string }>();
+
+			const factory = vi.fn(() => new Database());
+			const container = Container.builder()
+				.add(ConfigTag, () => ({ url: 'db://' }))
+				.add(Database, { create: factory, cleanup: vi.fn() })
+				.build();
+
+			const graph = container.graph();
+
+			expect(factory).not.toHaveBeenCalled();
+			expect(graph.edges).toEqual([]);
+			expect(graph.nodes).toEqual([
+				{
+					tag: ConfigTag,
+					id: 'config',
+					scope: undefined,
+					registered: true,
+					instantiated: false,
+					hasFinalizer: false,
+					lifetime: 'singleton',
+					boundScope: undefined,
+				},
+				{
+					tag: Database,
+					id: 'Database',
+					scope: undefined,
+					registered: true,
+					instantiated: false,
+					hasFinalizer: true,
+					lifetime: 'singleton',
+					boundScope: undefined,
+				},
+			]);
+		});
+
+		it('should report instantiated tags and recorded edges', async () => {
+			class Database {}
+			class Cache {}
+			class UserService {}
+
+			const container = Container.builder()
+				.add(Database, () => new Database())
+				.add(Cache, () => new Cache())
+				.add(UserService, async (ctx) => {
+					await ctx.resolve(Database);
+					return new UserService();
+				})
+				.build();
+
+			await container.resolve(UserService);
+			const graph = container.graph();
+
+			const byId = Object.fromEntries(
+				graph.nodes.map((node) => [node.id, node])
+			);
+			expect(byId.Database?.instantiated).toBe(true);
+			expect(byId.UserService?.instantiated).toBe(true);
+			expect(byId.Cache?.instantiated).toBe(false);
+			expect(
+				graph.edges.map((edge) => [edge.from.id, edge.to.id])
+			).toEqual([['UserService', 'Database']]);
+			expect(graph.edges[0]?.from).toBe(byId.UserService);
+		});
+
+		it('should report lifetime and failed creations', async () => {
+			class Handler {}
+			class Broken {}
+
+			const container = Container.builder()
+				.add(Handler, {
+					create: () => new Handler(),
+					lifetime: 'transient',
+				})
+				.add(Broken, () => {
+					throw new Error('Broken');
+				})
+				.build();
+
+			await container.resolve(Handler);
+			await expect(container.resolve(Broken)).rejects.toThrow();
+
+			const [handler, broken] = container.graph().nodes;
+			expect(handler?.lifetime).toBe('transient');
+			expect(handler?.instantiated).toBe(true);
+			expect(broken?.instantiated).toBe(false);
+		});
+	});
+
+	describe('use()', () => {
+		it('should resolve service and run callback', async () => {
+			class UserService {
+				getUsers() {
+					return ['alice', 'bob'];
+				}
+			}
+
+			const container = Container.builder()
+				.add(UserService, () => new UserService())
+				.build();
+
+			const result = await container.use(UserService, (service) =>
+				service.getUsers()
+			);
+
+			expect(result).toEqual(['alice', 'bob']);
+		});
+
+		it('should destroy container after callback completes', async () => {
+			class TestService {}
+
+			const container = Container.builder()
+				.add(TestService, () => new TestService())
+				.build();
+
+			await container.use(TestService, () => 'done');
+
+			// Container should be destroyed
 			await expect(container.resolve(TestService)).rejects.toThrow(
 				ContainerDestroyedError
 			);
@@ -1184,12 +4251,38 @@ describe('ScopedContainer', () => {
 				})
 				.build();
 
-			await parent.resolve(ParentService);
-			await child.resolve(ChildService);
+			await parent.resolve(ParentService);
+			await child.resolve(ChildService);
+
+			await expect(parent.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+		});
+
+		it('should finalize scope-bound instances created during destroy', async () => {
+			class Session {}
+			let finish: (session: Session) => void = () => undefined;
+			const cleanup = vi.fn();
+			const app = ScopedContainer.builder('app')
+				.add(Session, {
+					create: () =>
+						new Promise<Session>((resolve) => {
+							finish = resolve;
+						}),
+					cleanup,
+					scope: 'request',
+				})
+				.build();
+			const request = app.child('request').build();
+
+			const resolution = request.resolve(Session);
+			const destruction = request.destroy();
+			const session = new Session();
+			finish(session);
 
-			await expect(parent.destroy()).rejects.toThrow(
-				DependencyFinalizationError
-			);
+			await destruction;
+			expect(await resolution).toBe(session);
+			expect(cleanup).toHaveBeenCalledWith(session);
 		});
 
 		it('should prevent creating children after destroy', async () => {
@@ -1207,6 +4300,42 @@ describe('ScopedContainer', () => {
 			await parent.destroy();
 			await expect(parent.destroy()).resolves.toBeUndefined();
 		});
+
+		it('should run finalizers once when destroyed concurrently', async () => {
+			class Session {}
+			const cleanup = vi.fn();
+			const app = ScopedContainer.empty('app');
+			const request = app
+				.child('request')
+				.add(Session, { create: () => new Session(), cleanup })
+				.build();
+			await request.resolve(Session);
+
+			await Promise.all([
+				app.destroy(),
+				request.destroy(),
+				app.destroy(),
+			]);
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('explicit resource management', () => {
+		it('should destroy the scope at the end of an await using block', async () => {
+			class Session {}
+			const cleanup = vi.fn();
+			const app = ScopedContainer.empty('app');
+			{
+				await using request = app
+					.child('request')
+					.add(Session, { create: () => new Session(), cleanup })
+					.build();
+				await request.resolve(Session);
+			}
+
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
 	});
 
 	describe('use()', () => {
@@ -1353,6 +4482,352 @@ describe('ScopedContainer', () => {
 		});
 	});
 
+	describe('resolveOptional()', () => {
+		class Telemetry {}
+
+		it('should resolve dependencies registered in parent scopes', async () => {
+			const app = ScopedContainer.builder('app')
+				.add(Telemetry, () => new Telemetry())
+				.build();
+			const request = app.child('request').build();
+
+			expect(await request.resolveOptional(Telemetry)).toBe(
+				await app.resolve(Telemetry)
+			);
+		});
+
+		it('should return undefined when no scope registers the dependency', async () => {
+			const app = ScopedContainer.empty('app');
+			const request = app.child('request').build();
+
+			expect(await request.resolveOptional(Telemetry)).toBeUndefined();
+		});
+
+		it('should still enforce scope bindings', async () => {
+			const app = ScopedContainer.builder('app')
+				.add(Telemetry, {
+					create: () => new Telemetry(),
+					scope: 'request',
+				})
+				.build();
+
+			await expect(app.resolveOptional(Telemetry)).rejects.toThrow(
+				ScopeNotFoundError
+			);
+		});
+	});
+
+	describe('resolveSync()', () => {
+		class Database {}
+		class Session {
+			constructor(readonly db: Database) {}
+		}
+
+		it('should resolve dependencies registered in parent scopes', () => {
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.build();
+			const request = app.child('request').build();
+
+			expect(request.resolveSync(Database)).toBe(
+				app.resolveSync(Database)
+			);
+		});
+
+		it('should instantiate scope-bound dependencies in the matching scope', () => {
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.add(Session, {
+					create: (ctx) => new Session(ctx.resolveSync(Database)),
+					scope: 'request',
+				})
+				.build();
+			const request1 = app.child('request').build();
+			const request2 = app.child('request').build();
+
+			const session1 = request1.resolveSync(Session);
+			const session2 = request2.resolveSync(Session);
+
+			expect(session1).not.toBe(session2);
+			expect(request1.resolveSync(Session)).toBe(session1);
+			expect(session1.db).toBe(session2.db);
+			expect(() => app.resolveSync(Session)).toThrow(ScopeNotFoundError);
+		});
+
+		it('should return undefined for optional dependencies no scope registers', () => {
+			const app = ScopedContainer.empty('app');
+			const request = app.child('request').build();
+
+			expect(request.resolveOptionalSync(Database)).toBeUndefined();
+		});
+	});
+
+	describe('tag defaults', () => {
+		it('should share defaults across the hierarchy from the root scope', async () => {
+			const ClockTag = Tag.of('clock')<{ createdAt: number }>({
+				defaultFactory: () => ({ createdAt: Date.now() }),
+			});
+			const app = ScopedContainer.empty('app');
+			const request1 = app.child('request').build();
+			const request2 = app.child('request').build();
+
+			const clock = await request1.resolve(ClockTag);
+
+			expect(await request2.resolve(ClockTag)).toBe(clock);
+			expect(await app.resolve(ClockTag)).toBe(clock);
+		});
+
+		it('should prefer registrations in any scope over the default', async () => {
+			const PortTag = Tag.of('port')<number>({ default: 3000 });
+			const app = ScopedContainer.empty('app');
+			const request = app
+				.child('request')
+				.add(PortTag, () => 8080)
+				.build();
+
+			expect(await request.resolve(PortTag)).toBe(8080);
+			expect(await app.resolve(PortTag)).toBe(3000);
+		});
+	});
+
+	describe('self-wired services', () => {
+		it('should create self-wired services in the root scope', async () => {
+			class Clock extends Tag.Service() {}
+			const app = ScopedContainer.empty('app');
+			const request1 = app.child('request').build();
+			const request2 = app.child('request').build();
+
+			const clock = await request1.resolve(Clock);
+
+			expect(await request2.resolve(Clock)).toBe(clock);
+			expect(await app.resolve(Clock)).toBe(clock);
+		});
+
+		it('should create self-wired services in the outermost scope with their dependencies', async () => {
+			class Config {
+				readonly port = 3000;
+			}
+			class RequestContext {
+				readonly requestId = 'request-1';
+			}
+			class Handler extends Tag.Service([Config, RequestContext]) {
+				constructor(
+					readonly config: Config,
+					readonly context: RequestContext
+				) {
+					super();
+				}
+			}
+			class Router extends Tag.Service([Handler]) {
+				constructor(readonly handler: Handler) {
+					super();
+				}
+			}
+			const app = ScopedContainer.builder('app')
+				.add(Config, () => new Config())
+				.build();
+			const request = app
+				.child('request')
+				.add(RequestContext, () => new RequestContext())
+				.build();
+			const operation = request.child('operation').build();
+
+			const handler = await operation.resolve(Handler);
+
+			expect(handler.context).toBe(await request.resolve(RequestContext));
+			expect(handler.config).toBe(await app.resolve(Config));
+			expect(await request.resolve(Handler)).toBe(handler);
+			expect((await request.resolve(Router)).handler).toBe(handler);
+			await expect(
+				// @ts-expect-error - RequestContext is registered in the request scope
+				app.resolve(Handler)
+			).rejects.toThrow(DependencyCreationError);
+		});
+	});
+
+	describe('abort signals', () => {
+		it('should cancel running factories when a request scope is destroyed', async () => {
+			class Connection {}
+			class Session {}
+			let sessionSignal: AbortSignal | undefined;
+			const closeConnection = vi.fn();
+			const app = ScopedContainer.empty('app');
+			const request = app
+				.child('request')
+				.add(Connection, {
+					create: () => new Connection(),
+					cleanup: closeConnection,
+				})
+				.add(Session, async (ctx) => {
+					await ctx.resolve(Connection);
+					sessionSignal = ctx.signal;
+					return new Promise<Session>((_, reject) => {
+						ctx.signal.addEventListener('abort', () => {
+							reject(new Error('Session setup cancelled'));
+						});
+					});
+				})
+				.build();
+
+			const resolution = request.resolve(Session);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			await request.destroy();
+
+			await expect(resolution).rejects.toThrow(DependencyCreationError);
+			expect(sessionSignal?.aborted).toBe(true);
+			expect(closeConnection).toHaveBeenCalledTimes(1);
+		});
+
+		it('should pass the signal to factories of parent scopes', async () => {
+			class Database {}
+			let databaseSignal: AbortSignal | undefined;
+			const app = ScopedContainer.builder('app')
+				.add(Database, (ctx) => {
+					databaseSignal = ctx.signal;
+					return new Promise<Database>(() => undefined);
+				})
+				.build();
+			const request = app.child('request').build();
+			const controller = new AbortController();
+
+			const resolution = request.resolve(Database, {
+				signal: controller.signal,
+			});
+			controller.abort();
+
+			await expect(resolution).rejects.toThrow();
+			expect(databaseSignal?.aborted).toBe(true);
+		});
+	});
+
+	describe('events', () => {
+		it('should forward events from child scopes to ancestors', async () => {
+			class Session {}
+			const app = ScopedContainer.empty('app');
+			const events: string[] = [];
+			app.on('childCreated', ({ scope }) =>
+				events.push(`childCreated:${String(scope)}`)
+			);
+			app.on('created', ({ id, scope }) =>
+				events.push(`created:${id}@${String(scope)}`)
+			);
+			app.on('finalized', ({ id, scope }) =>
+				events.push(`finalized:${id}@${String(scope)}`)
+			);
+			app.on('destroyed', ({ scope }) =>
+				events.push(`destroyed:${String(scope)}`)
+			);
+
+			const request = app
+				.child('request')
+				.add(Session, {
+					create: () => new Session(),
+					cleanup: vi.fn(),
+				})
+				.build();
+			await request.resolve(Session);
+			await app.destroy();
+
+			expect(events).toEqual([
+				'childCreated:request',
+				'created:Session@request',
+				'finalized:Session@request',
+				'destroyed:request',
+				'destroyed:app',
+			]);
+		});
+
+		it('should reveal scopes that are never destroyed', () => {
+			const app = ScopedContainer.empty('app');
+			const open = new Set<ScopedContainer>();
+			app.on('childCreated', ({ child }) => {
+				open.add(child);
+				child.on('destroyed', () => open.delete(child));
+			});
+
+			const leaked = app.child('request').build();
+			const closed = app.child('request').build();
+			return closed.destroy().then(() => {
+				expect([...open]).toEqual([leaked]);
+			});
+		});
+	});
+
+	describe('interceptors', () => {
+		it('should pass the creating scope and inherit parent interceptors', async () => {
+			class Session {}
+			const calls: [string, unknown][] = [];
+			const app = ScopedContainer.builder('app')
+				.intercept((_tag, next, info) => {
+					calls.push(['app', info.scope]);
+					return next();
+				})
+				.build();
+			const request = app
+				.child('request')
+				.intercept((_tag, next, info) => {
+					calls.push(['request', info.scope]);
+					return next();
+				})
+				.add(Session, () => new Session())
+				.build();
+
+			await request.resolve(Session);
+
+			expect(calls).toEqual([
+				['app', 'request'],
+				['request', 'request'],
+			]);
+		});
+
+		it('should not apply child interceptors to parent registrations', async () => {
+			class Database {}
+			const intercepted: string[] = [];
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.build();
+			const request = app
+				.child('request')
+				.intercept((tag, next) => {
+					intercepted.push(Tag.id(tag));
+					return next();
+				})
+				.build();
+
+			await request.resolve(Database);
+
+			expect(intercepted).toEqual([]);
+		});
+	});
+
+	describe('aliases', () => {
+		it('should resolve the target from the resolving scope', async () => {
+			class Session {
+				constructor(readonly id: number) {}
+			}
+			const CurrentSessionTag = Tag.of('currentSession')<Session>();
+			let nextId = 0;
+			const app = ScopedContainer.builder('app')
+				.alias(CurrentSessionTag, Session)
+				.build();
+			const request1 = app
+				.child('request')
+				.add(Session, () => new Session(++nextId))
+				.build();
+			const request2 = app
+				.child('request')
+				.add(Session, () => new Session(++nextId))
+				.build();
+
+			const session1 = await request1.resolve(CurrentSessionTag);
+			const session2 = await request2.resolve(CurrentSessionTag);
+
+			expect(session1).toBe(await request1.resolve(Session));
+			expect(session2).toBe(await request2.resolve(Session));
+			expect(session1).not.toBe(session2);
+		});
+	});
+
 	describe('dependency injection across scopes', () => {
 		it('should inject parent dependencies into child services', async () => {
 			class Database {
@@ -1414,6 +4889,241 @@ describe('ScopedContainer', () => {
 		});
 	});
 
+	describe('scope-bound dependencies', () => {
+		it('should instantiate in the nearest child with a matching scope', async () => {
+			class Database {}
+			class Session {
+				constructor(public db: Database) {}
+			}
+
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.add(Session, {
+					create: async (ctx) =>
+						new Session(await ctx.resolve(Database)),
+					scope: 'request',
+				})
+				.build();
+
+			const request1 = app.child('request').build();
+			const request2 = app.child('request').build();
+
+			const session1 = await request1.resolve(Session);
+			const session2 = await request2.resolve(Session);
+
+			expect(session1).not.toBe(session2);
+			expect(await request1.resolve(Session)).toBe(session1);
+			// Unbound dependencies are still shared through the parent
+			expect(session1.db).toBe(session2.db);
+		});
+
+		it('should find the matching scope from a nested child', async () => {
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, { create: () => new Session(), scope: 'request' })
+				.build();
+			const request = app.child('request').build();
+			const operation = request.child('operation').build();
+
+			const fromOperation = await operation.resolve(Session);
+			const fromRequest = await request.resolve(Session);
+
+			expect(fromOperation).toBe(fromRequest);
+		});
+
+		it('should prefer the innermost of nested scopes with the same name', async () => {
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, { create: () => new Session(), scope: 'request' })
+				.build();
+			const outer = app.child('request').build();
+			const inner = outer.child('request').build();
+
+			const fromOuter = await outer.resolve(Session);
+			const fromInner = await inner.resolve(Session);
+
+			expect(fromInner).not.toBe(fromOuter);
+			expect(
+				await inner.child('operation').build().resolve(Session)
+			).toBe(fromInner);
+		});
+
+		it('should resolve dependencies from the matching scope', async () => {
+			const RequestIdTag = Tag.of('requestId')<string>();
+			class Session {
+				constructor(public requestId: string) {}
+			}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, {
+					create: async (ctx) =>
+						// RequestIdTag is only registered in request scopes
+						new Session(await ctx.resolve(RequestIdTag as never)),
+					scope: 'request',
+				})
+				.build();
+
+			const request = app
+				.child('request')
+				.add(RequestIdTag, () => 'req-1')
+				.build();
+
+			const session = await request.resolve(Session);
+			expect(session.requestId).toBe('req-1');
+		});
+
+		it('should throw ScopeNotFoundError when no matching scope is active', async () => {
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, { create: () => new Session(), scope: 'request' })
+				.build();
+			const job = app.child('job').build();
+
+			await expect(app.resolve(Session)).rejects.toThrow(
+				ScopeNotFoundError
+			);
+			await expect(job.resolve(Session)).rejects.toThrow(
+				ScopeNotFoundError
+			);
+		});
+
+		it('should prevent singletons from capturing scope-bound dependencies', async () => {
+			class Session {}
+			class UserService {
+				constructor(public session: Session) {}
+			}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, { create: () => new Session(), scope: 'request' })
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Session))
+				)
+				.build();
+			const request = app.child('request').build();
+
+			try {
+				await request.resolve(UserService);
+				expect.fail('Should have thrown');
+			} catch (error) {
+				expect(error).toBeInstanceOf(DependencyCreationError);
+				expect(
+					(error as DependencyCreationError).getRootCause()
+				).toBeInstanceOf(ScopeNotFoundError);
+			}
+		});
+
+		it('should finalize instances with the scope that created them', async () => {
+			class Session {}
+
+			const cleanup = vi.fn();
+			const app = ScopedContainer.builder('app')
+				.add(Session, {
+					create: () => new Session(),
+					cleanup,
+					scope: 'request',
+				})
+				.build();
+			const request = app.child('request').build();
+
+			const session = await request.resolve(Session);
+			await request.destroy();
+
+			expect(cleanup).toHaveBeenCalledExactlyOnceWith(session);
+
+			await app.destroy();
+			expect(cleanup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should support symbol scopes', async () => {
+			const RequestScope = Symbol('request');
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Session, {
+					create: () => new Session(),
+					scope: RequestScope,
+				})
+				.build();
+			const request = app.child(RequestScope).build();
+
+			expect(await request.resolve(Session)).toBeInstanceOf(Session);
+		});
+
+		it('should throw ScopeNotFoundError from a plain container', async () => {
+			class Session {}
+
+			const container = Container.builder()
+				.add(Session, { create: () => new Session(), scope: 'request' })
+				.build();
+
+			await expect(container.resolve(Session)).rejects.toThrow(
+				ScopeNotFoundError
+			);
+		});
+	});
+
+	describe('graph()', () => {
+		it('should include ancestor scopes and cross-scope edges', async () => {
+			class Database {}
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.add(Session, {
+					create: async (ctx) => {
+						await ctx.resolve(Database);
+						return new Session();
+					},
+					scope: 'request',
+				})
+				.build();
+			const request = app.child('request').build();
+
+			await request.resolve(Session);
+			const graph = request.graph();
+
+			expect(
+				graph.nodes.map((node) => [
+					node.id,
+					node.scope,
+					node.registered,
+					node.instantiated,
+				])
+			).toEqual([
+				['Database', 'app', true, true],
+				['Session', 'app', true, false],
+				['Session', 'request', false, true],
+			]);
+			expect(graph.nodes[1]?.boundScope).toBe('request');
+			expect(
+				graph.edges.map((edge) => [
+					`${String(edge.from.scope)}:${edge.from.id}`,
+					`${String(edge.to.scope)}:${edge.to.id}`,
+				])
+			).toEqual([['request:Session', 'app:Database']]);
+		});
+
+		it('should only include its own scope and ancestors', () => {
+			class AppService {}
+			class RequestService {}
+
+			const app = ScopedContainer.builder('app')
+				.add(AppService, () => new AppService())
+				.build();
+			app.child('request')
+				.add(RequestService, () => new RequestService())
+				.build();
+
+			expect(app.graph().nodes.map((node) => node.id)).toEqual([
+				'AppService',
+			]);
+		});
+	});
+
 	describe('realistic web server scenario', () => {
 		it('should support request-scoped dependencies', async () => {
 			// App-level services
@@ -1,12 +1,32 @@
 import {
+	AsyncFactoryError,
 	CircularDependencyError,
 	ContainerDestroyedError,
 	DependencyCreationError,
 	DependencyFinalizationError,
+	DependencyInitializationError,
+	DependencyTimeoutError,
+	DuplicateEntryKeyError,
+	MissingDependenciesError,
+	ScopeNotFoundError,
 	UnknownDependencyError,
 } from './errors.js';
 import { Layer } from './layer.js';
-import { AnyTag, TagType } from './tag.js';
+import {
+	AnyDefaultTag,
+	AnyManyTag,
+	AnyMapTag,
+	AnyTag,
+	DefaultTagKey,
+	ManyTagElement,
+	MapTagEntry,
+	OptionalTagKey,
+	ServiceRequiresKey,
+	Tag,
+	TagType,
+	ValidWiring,
+	WiredServiceTag,
+} from './tag.js';
 import { Contravariant, PromiseOrValue } from './types.js';
 
 /**
@@ -30,425 +50,2881 @@ export type Factory<T, TRequires extends AnyTag> = (
 export type Finalizer<T> = (instance: T) => PromiseOrValue<void>;
 
 /**
- * Complete dependency lifecycle with factory and optional cleanup.
- *
- * Can be implemented as a class for complex lifecycle logic.
+ * Controls how many instances the container creates for a registration.
  *
- * @template T - The instance type
- * @template TRequires - Union type of required dependencies
+ * - `'singleton'` (default): the factory runs once and the instance is cached.
+ * - `'transient'`: the factory runs on every resolution and each caller gets a fresh instance.
  */
-export interface DependencyLifecycle<T, TRequires extends AnyTag> {
-	create: Factory<T, TRequires>;
-	cleanup?: Finalizer<T>;
-}
+export type Lifetime = 'singleton' | 'transient';
 
 /**
- * Valid dependency registration: either a factory function or lifecycle object.
+ * Per-registration options that control how the container manages instances.
  */
-export type DependencySpec<T extends AnyTag, TRequires extends AnyTag> =
-	| Factory<TagType<T>, TRequires>
-	| DependencyLifecycle<TagType<T>, TRequires>;
+export interface DependencyOptions {
+	/**
+	 * Instance lifetime. Defaults to `'singleton'`.
+	 *
+	 * Finalizers of transient dependencies run once per created instance
+	 * when the container is destroyed.
+	 */
+	lifetime?: Lifetime;
+
+	/**
+	 * Scope the dependency is bound to.
+	 *
+	 * When set, the registration can live in any ancestor scope (typically the root),
+	 * but instances are created, cached and finalized by the nearest scoped
+	 * container whose `scope` matches - usually a per-request child.
+	 * Resolving it where no such scope exists throws a `ScopeNotFoundError`.
+	 */
+	scope?: Scope;
+
+	/**
+	 * Maximum time in milliseconds the factory may take.
+	 *
+	 * When exceeded, resolution rejects with a `DependencyTimeoutError`.
+	 * An instance the factory creates after the timeout is finalized
+	 * right away.
+	 */
+	createTimeout?: number;
+
+	/**
+	 * Maximum time in milliseconds each finalizer call may take.
+	 *
+	 * When exceeded, a `DependencyTimeoutError` is reported as a
+	 * finalization failure and destruction moves on.
+	 */
+	cleanupTimeout?: number;
+
+	/**
+	 * Whether instances implementing `Symbol.asyncDispose` or `Symbol.dispose`
+	 * are disposed on destroy when no cleanup function is given.
+	 * Defaults to `true`.
+	 */
+	autoDispose?: boolean;
+
+	/**
+	 * Retries the factory when it fails.
+	 *
+	 * Without a policy, a failed resolution is not cached, so the next
+	 * `resolve()` call tries again.
+	 */
+	retry?: RetryPolicy;
+}
 
 /**
- * Context available to factory functions during resolution.
+ * Controls how often and when a failing factory is retried.
  *
- * Provides `resolve` and `resolveAll` for injecting dependencies.
+ * @example
+ * ```typescript
+ * builder.add(Broker, {
+ *   create: () => Broker.connect(url),
+ *   retry: {
+ *     attempts: 5,
+ *     backoff: 100, // 100ms, 200ms, 400ms, 800ms
+ *     retryIf: (error) => error instanceof ConnectionError,
+ *   },
+ * });
+ * ```
  */
-export type ResolutionContext<TTags extends AnyTag> = Pick<
-	IContainer<TTags>,
-	'resolve' | 'resolveAll'
->;
+export interface RetryPolicy {
+	/** Maximum number of attempts, including the first one. */
+	attempts: number;
 
-/**
- * Internal implementation of ResolutionContext that carries the resolution chain
- * for circular dependency detection.
- * @internal
- */
-class ResolutionContextImpl<
-	TTags extends AnyTag,
-> implements ResolutionContext<TTags> {
-	constructor(
-		private readonly resolveFn: (tag: AnyTag) => Promise<unknown>
-	) {}
+	/**
+	 * Delay in milliseconds before the first retry. The delay doubles
+	 * after each further failure. Defaults to `0`.
+	 */
+	backoff?: number;
 
-	async resolve<T extends TTags>(tag: T): Promise<TagType<T>> {
-		return this.resolveFn(tag) as Promise<TagType<T>>;
-	}
+	/** Upper bound for the delay between attempts, in milliseconds. */
+	maxBackoff?: number;
 
-	async resolveAll<const T extends readonly TTags[]>(
-		...tags: T
-	): Promise<{ [K in keyof T]: TagType<T[K]> }> {
-		const promises = tags.map((tag) => this.resolve(tag));
-		const results = await Promise.all(promises);
-		return results as { [K in keyof T]: TagType<T[K]> };
-	}
+	/**
+	 * Decides whether a failed attempt is retried. Receives the error the
+	 * attempt failed with and the 1-based attempt number.
+	 * Defaults to retrying every error.
+	 */
+	retryIf?: (error: unknown, attempt: number) => boolean;
 }
 
 /**
- * Unique symbol for container type branding.
+ * Container-wide defaults for registration options, set with
+ * `builder.defaults()`. Options of individual registrations take precedence.
  */
-export const ContainerTypeId: unique symbol = Symbol.for('sandly/Container');
+export type ContainerDefaults = Pick<
+	DependencyOptions,
+	'createTimeout' | 'cleanupTimeout' | 'retry'
+>;
 
 /**
- * Interface for dependency containers.
- *
- * @template TTags - Union type of registered dependency tags
+ * Returns whether a value implements `Symbol.asyncDispose` or `Symbol.dispose`.
+ * @internal
  */
-export interface IContainer<TTags extends AnyTag = never> {
-	readonly [ContainerTypeId]: {
-		readonly _TTags: Contravariant<TTags>;
-	};
+function isDisposable(
+	value: unknown
+): value is Partial<AsyncDisposable & Disposable> {
+	if (
+		(typeof value !== 'object' && typeof value !== 'function') ||
+		value === null
+	) {
+		return false;
+	}
+	const disposable = value as Partial<AsyncDisposable & Disposable>;
+	return (
+		typeof disposable[Symbol.asyncDispose] === 'function' ||
+		typeof disposable[Symbol.dispose] === 'function'
+	);
+}
 
-	resolve: <T extends TTags>(tag: T) => Promise<TagType<T>>;
-	resolveAll: <const T extends readonly TTags[]>(
-		...tags: T
-	) => Promise<{ [K in keyof T]: TagType<T[K]> }>;
-	use: <T extends TTags, R>(
-		tag: T,
-		fn: (service: TagType<T>) => PromiseOrValue<R>
-	) => Promise<R>;
-	destroy(): Promise<void>;
+/**
+ * Finalizer of registrations without a cleanup function. Disposes the
+ * instance with `Symbol.asyncDispose`, or else `Symbol.dispose`.
+ * @internal
+ */
+async function dispose(instance: unknown): Promise<void> {
+	if (!isDisposable(instance)) {
+		return;
+	}
+	const asyncDispose = instance[Symbol.asyncDispose];
+	if (asyncDispose !== undefined) {
+		await asyncDispose.call(instance);
+	} else {
+		instance[Symbol.dispose]?.();
+	}
 }
 
 /**
- * Extracts the registered tags from a container type.
+ * Calls `run` until it succeeds, the retry policy gives up or `signal` is
+ * aborted, pushing every error to `failures`. Rejects with the error of the
+ * last attempt, also when `signal` is aborted during a backoff.
+ * @internal
  */
-export type ContainerTags<C> =
-	C extends IContainer<infer TTags> ? TTags : never;
+async function withRetry<T>(
+	run: () => Promise<T>,
+	policy: RetryPolicy,
+	failures: unknown[],
+	signal: AbortSignal
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await run();
+		} catch (error) {
+			failures.push(error);
+			if (
+				attempt >= policy.attempts ||
+				signal.aborted ||
+				!(policy.retryIf?.(error, attempt) ?? true)
+			) {
+				throw error;
+			}
+			const backoff = (policy.backoff ?? 0) * 2 ** (attempt - 1);
+			try {
+				await sleep(
+					Math.min(backoff, policy.maxBackoff ?? backoff),
+					signal
+				);
+			} catch {
+				// Stop once the container is destroyed or every caller aborted
+				throw error;
+			}
+		}
+	}
+}
 
 /**
- * Common interface for container builders that support adding dependencies.
- * Used by Layer to work with both ContainerBuilder and ScopedContainerBuilder.
+ * Resolves after `ms` milliseconds, or rejects with the abort reason of
+ * `signal` as soon as it is aborted.
+ * @internal
  */
-export interface IContainerBuilder<TTags extends AnyTag = never> {
-	add<T extends AnyTag>(
-		tag: T,
-		spec: DependencySpec<T, TTags>
-	): IContainerBuilder<TTags | T>;
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal.reason as Error);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener('abort', onAbort, { once: true });
+	});
 }
 
 /**
- * Extracts the registered tags from a builder type.
+ * Rejects with the abort reason of `signal` as soon as it is aborted,
+ * leaving `promise` running. Without a signal, returns `promise` as is.
+ * @internal
  */
-export type BuilderTags<B> =
-	B extends IContainerBuilder<infer TTags> ? TTags : never;
+function abortable<T>(
+	promise: Promise<T>,
+	signal: AbortSignal | undefined
+): Promise<T> {
+	if (signal === undefined) {
+		return promise;
+	}
+	let onAbort: () => void = () => undefined;
+	const aborted = new Promise<void>((resolve) => {
+		onAbort = resolve;
+		if (signal.aborted) {
+			resolve();
+		} else {
+			signal.addEventListener('abort', onAbort, { once: true });
+		}
+	}).then((): never => {
+		const reason: unknown = signal.reason;
+		throw reason;
+	});
+	return Promise.race([promise, aborted]).finally(() => {
+		signal.removeEventListener('abort', onAbort);
+	});
+}
 
 /**
- * Builder for constructing immutable containers.
- *
- * Use `Container.builder()` to create a builder, then chain `.add()` calls
- * to register dependencies, and finally call `.build()` to create the container.
- *
- * @template TTags - Union type of registered dependency tags
- *
- * @example
- * ```typescript
- * const container = Container.builder()
- *   .add(Database, () => new Database())
- *   .add(UserService, async (ctx) =>
- *     new UserService(await ctx.resolve(Database))
- *   )
- *   .build();
- * ```
+ * Signal of a singleton under creation, shared by every caller waiting for
+ * it. Aborted once all of them have aborted; a caller without a signal keeps
+ * the creation going, so one caller giving up never fails the others.
+ * @internal
  */
-export class ContainerBuilder<TTags extends AnyTag = never> {
-	private readonly factories = new Map<AnyTag, Factory<unknown, TTags>>();
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	private readonly finalizers = new Map<AnyTag, Finalizer<any>>();
+class CreationSignal {
+	private readonly controller = new AbortController();
+	private readonly listeners = new Map<AbortSignal, () => void>();
+	private pinned = false;
+
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
 
 	/**
-	 * Registers a dependency with a factory function or lifecycle object.
-	 *
-	 * @param tag - The dependency tag (class or ValueTag)
-	 * @param spec - Factory function or lifecycle object
-	 * @returns The builder with updated type information
+	 * Registers a caller waiting for the creation.
 	 */
-	add<T extends AnyTag>(
-		tag: T,
-		spec: DependencySpec<T, TTags>
-	): ContainerBuilder<TTags | T> {
-		if (typeof spec === 'function') {
-			this.factories.set(tag, spec as Factory<unknown, TTags>);
-			// Remove any existing finalizer when registering with just a factory
-			this.finalizers.delete(tag);
-		} else {
-			// Bind the create method to preserve 'this' context for class instances
-			this.factories.set(
-				tag,
-				spec.create.bind(spec) as Factory<unknown, TTags>
-			);
-			if (spec.cleanup) {
-				// Bind the cleanup method to preserve 'this' context for class instances
-				this.finalizers.set(tag, spec.cleanup.bind(spec));
-			} else {
-				// Remove any existing finalizer when registering with just a create function
-				this.finalizers.delete(tag);
+	join(signal: AbortSignal | undefined): void {
+		if (signal === undefined) {
+			this.pinned = true;
+			return;
+		}
+		if (this.listeners.has(signal)) {
+			return;
+		}
+		const onAbort = () => {
+			signal.removeEventListener('abort', onAbort);
+			this.listeners.delete(signal);
+			if (this.listeners.size === 0 && !this.pinned) {
+				this.controller.abort(signal.reason);
 			}
+		};
+		this.listeners.set(signal, onAbort);
+		if (signal.aborted) {
+			onAbort();
+		} else {
+			signal.addEventListener('abort', onAbort);
 		}
-		return this as ContainerBuilder<TTags | T>;
 	}
 
 	/**
-	 * Creates an immutable container from the registered dependencies.
+	 * Stops listening to the callers once the creation has settled.
 	 */
-	build(): Container<TTags> {
-		return Container._createFromBuilder(this.factories, this.finalizers);
+	settle(): void {
+		for (const [signal, onAbort] of this.listeners) {
+			signal.removeEventListener('abort', onAbort);
+		}
+		this.listeners.clear();
 	}
 }
 
 /**
- * Type-safe dependency injection container.
+ * Rejects with the error returned by `onTimeout` if `promise` does not
+ * settle within `ms` milliseconds. Without `ms`, returns `promise` as is.
+ * @internal
+ */
+function withTimeout<T>(
+	promise: Promise<T>,
+	ms: number | undefined,
+	onTimeout: (ms: number) => Error
+): Promise<T> {
+	if (ms === undefined) {
+		return promise;
+	}
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			reject(onTimeout(ms));
+		}, ms);
+	});
+	return Promise.race([promise, timeout]).finally(() => {
+		clearTimeout(timer);
+	});
+}
+
+/**
+ * Complete dependency lifecycle with factory and optional cleanup.
  *
- * Containers are immutable - use `Container.builder()` to create one.
- * Each dependency is created once (singleton) and cached.
+ * Can be implemented as a class for complex lifecycle logic.
  *
- * @template TTags - Union type of registered dependency tags
+ * @template T - The instance type
+ * @template TRequires - Union type of required dependencies
+ */
+export interface DependencyLifecycle<
+	T,
+	TRequires extends AnyTag,
+> extends DependencyOptions {
+	create: Factory<T, TRequires>;
+	cleanup?: Finalizer<T>;
+}
+
+/**
+ * Valid dependency registration: either a factory function or lifecycle object.
+ */
+export type DependencySpec<T extends AnyTag, TRequires extends AnyTag> =
+	| Factory<TagType<T>, TRequires>
+	| DependencyLifecycle<TagType<T>, TRequires>;
+
+/**
+ * A single element contributed to a ManyTag: either a factory function or
+ * a lifecycle object with `create` and optional `cleanup`.
  *
- * @example
- * ```typescript
- * class Database {
- *   query(sql: string) { return []; }
- * }
+ * The collection is a singleton of the container the contributions are
+ * registered with, so contributions only describe how their own element is
+ * created and cleaned up.
+ * Disposable elements without a `cleanup` are disposed unless `autoDispose`
+ * is `false`.
  *
- * class UserService {
- *   constructor(private db: Database) {}
- *   getUsers() { return this.db.query('SELECT * FROM users'); }
- * }
+ * @template T - The element type
+ * @template TRequires - Union type of required dependencies
+ */
+export type ContributionSpec<T, TRequires extends AnyTag> =
+	| Factory<T, TRequires>
+	| Pick<
+			DependencyLifecycle<T, TRequires>,
+			'create' | 'cleanup' | 'autoDispose'
+	  >;
+
+/**
+ * Function that wraps an instance after its factory has created it.
  *
- * const container = Container.builder()
- *   .add(Database, () => new Database())
- *   .add(UserService, async (ctx) =>
- *     new UserService(await ctx.resolve(Database))
- *   )
- *   .build();
+ * Receives the instance and a resolution context for injecting the
+ * decorator's own dependencies, and returns the instance to expose.
  *
- * const userService = await container.resolve(UserService);
- * ```
+ * @template T - The type of the decorated instance
+ * @template TRequires - Union type of dependencies the decorator resolves
  */
-export class Container<
-	TTags extends AnyTag = never,
-> implements IContainer<TTags> {
-	readonly [ContainerTypeId]!: {
-		readonly _TTags: Contravariant<TTags>;
-	};
+export type Decorator<T, TRequires extends AnyTag> = (
+	instance: T,
+	ctx: ResolutionContext<TRequires>
+) => PromiseOrValue<T>;
 
-	/**
-	 * Cache of instantiated dependencies.
-	 * @internal
-	 */
-	protected readonly cache = new Map<AnyTag, Promise<unknown>>();
+/**
+ * Information about a factory invocation, passed to interceptors.
+ */
+export interface InterceptorInfo {
+	/** Tags whose factories led to this resolution, outermost first. */
+	readonly chain: readonly AnyTag[];
+	/** Scope of the container creating the instance, for scoped containers. */
+	readonly scope: Scope | undefined;
+}
 
-	/**
-	 * Factory functions for creating dependencies.
-	 * @internal
-	 */
-	protected readonly factories: Map<AnyTag, Factory<unknown, TTags>>;
+/**
+ * Function wrapping every factory invocation of a container.
+ *
+ * Call `next` to run the factory (and any inner interceptors) and return
+ * its instance. Whatever the interceptor returns becomes the instance;
+ * errors it throws are wrapped in `DependencyCreationError`.
+ *
+ * @example
+ * ```typescript
+ * const timing: Interceptor = async (tag, next) => {
+ *   const start = performance.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${Tag.id(tag)}: ${performance.now() - start}ms`);
+ *   }
+ * };
+ * ```
+ */
+export type Interceptor = (
+	tag: AnyTag,
+	next: () => Promise<unknown>,
+	info: InterceptorInfo
+) => PromiseOrValue<unknown>;
 
-	/**
-	 * Cleanup functions for dependencies.
-	 * @internal
-	 */
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	protected readonly finalizers: Map<AnyTag, Finalizer<any>>;
+/**
+ * Function wrapping every finalizer invocation of a container.
+ *
+ * Call `next` to run the finalizer; errors it throws count as
+ * finalization failures.
+ */
+export type FinalizerInterceptor = (
+	tag: AnyTag,
+	next: () => Promise<void>,
+	info: Pick<InterceptorInfo, 'scope'>
+) => PromiseOrValue<void>;
 
-	/**
-	 * Whether this container has been destroyed.
-	 * @internal
-	 */
-	protected isDestroyed = false;
+/**
+ * Function wrapping the finalization of a container in `destroy()`.
+ *
+ * Call `next` to run every finalizer of the container; it rejects with a
+ * `DependencyFinalizationError` if any of them fails.
+ */
+export type DestroyInterceptor = (
+	next: () => Promise<void>,
+	info: Pick<InterceptorInfo, 'scope'>
+) => PromiseOrValue<void>;
+
+/**
+ * Interceptors for each stage of a container's lifecycle, all optional.
+ */
+export interface LifecycleInterceptors {
+	/** Wraps every factory invocation. */
+	readonly create?: Interceptor;
+	/** Wraps every finalizer invocation. */
+	readonly finalize?: FinalizerInterceptor;
+	/** Wraps the finalization of the container in `destroy()`. */
+	readonly destroy?: DestroyInterceptor;
+}
+
+/**
+ * Wraps `run` with interceptors so that the first one runs outermost.
+ * @internal
+ */
+function intercepted<T>(
+	run: () => Promise<T>,
+	interceptors: readonly ((next: () => Promise<T>) => PromiseOrValue<T>)[]
+): () => Promise<T> {
+	return interceptors.reduceRight<() => Promise<T>>(
+		(next, interceptor) => async () => await interceptor(next),
+		run
+	);
+}
+
+/**
+ * Returns whether a value is a promise or another thenable.
+ * @internal
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+	return (
+		(typeof value === 'object' || typeof value === 'function') &&
+		value !== null &&
+		typeof (value as { then?: unknown }).then === 'function'
+	);
+}
+
+/**
+ * Calls `fn` with a value, or with the result of a promise. Keeps the
+ * results of synchronous factories synchronous for `resolveSync()`.
+ * @internal
+ */
+function andThen<T, R>(
+	value: PromiseOrValue<T>,
+	fn: (value: T) => PromiseOrValue<R>
+): PromiseOrValue<R> {
+	return isPromiseLike(value) ? Promise.resolve(value).then(fn) : fn(value);
+}
+
+/**
+ * Waits for the promises among `values`, or returns them as is if
+ * there are none.
+ * @internal
+ */
+function all<T>(values: PromiseOrValue<T>[]): PromiseOrValue<T[]> {
+	return values.some(isPromiseLike) ? Promise.all(values) : (values as T[]);
+}
+
+/**
+ * Finalizes an element created by a contribution: with its cleanup
+ * function, or else by disposing it unless `autoDispose` is `false`.
+ * @internal
+ */
+async function finalizeElement<TTags extends AnyTag>(
+	spec: ContributionSpec<unknown, TTags>,
+	element: unknown
+): Promise<void> {
+	if (typeof spec === 'function') {
+		await dispose(element);
+	} else if (spec.cleanup) {
+		await spec.cleanup(element);
+	} else if (spec.autoDispose !== false) {
+		await dispose(element);
+	}
+}
+
+/**
+ * Builds the lifecycle of a ManyTag from its contributions.
+ *
+ * Elements are created concurrently and returned in registration order.
+ * If a contribution fails, the elements created by the others are finalized
+ * before the error propagates. On cleanup, every contribution's finalizer
+ * receives its own element.
+ * @internal
+ */
+function collectionSpec<TTags extends AnyTag>(
+	contributions: readonly ContributionSpec<unknown, TTags>[]
+): DependencyLifecycle<unknown[], TTags> {
+	// Finalizes the elements that were created when another one failed,
+	// since the collection that would own them is never returned
+	const release = (elements: readonly PromiseOrValue<unknown>[]) =>
+		Promise.allSettled(
+			elements.map(async (element, index) => {
+				await finalizeElement(contributions[index]!, await element);
+			})
+		);
+
+	return {
+		create: (ctx) => {
+			const elements: PromiseOrValue<unknown>[] = [];
+			try {
+				for (const spec of contributions) {
+					elements.push(
+						typeof spec === 'function'
+							? spec(ctx)
+							: spec.create(ctx)
+					);
+				}
+			} catch (error) {
+				void release(elements);
+				throw error;
+			}
+			if (!elements.some(isPromiseLike)) {
+				return elements;
+			}
+			return Promise.allSettled(elements).then(async (results) => {
+				const failure = results.find(
+					(result): result is PromiseRejectedResult =>
+						result.status === 'rejected'
+				);
+				if (failure) {
+					await release(elements);
+					throw failure.reason;
+				}
+				return results.map(
+					(result) =>
+						(result as PromiseFulfilledResult<unknown>).value
+				);
+			});
+		},
+		cleanup: async (elements) => {
+			const results = await Promise.allSettled(
+				contributions.map((spec, index) =>
+					finalizeElement(spec, elements[index])
+				)
+			);
+			const failure = results.find(
+				(result): result is PromiseRejectedResult =>
+					result.status === 'rejected'
+			);
+			if (failure) {
+				throw failure.reason;
+			}
+		},
+	};
+}
+
+/**
+ * A keyed contribution to a MapTag, labeled for duplicate key errors.
+ * @internal
+ */
+interface Entry<TTags extends AnyTag> {
+	key: string;
+	spec: ContributionSpec<unknown, TTags>;
+	source: string;
+}
+
+/**
+ * Builds the lifecycle of a MapTag from its entries.
+ *
+ * Entry values are created like ManyTag elements and collected into a `Map`
+ * in registration order.
+ * @internal
+ */
+function entrySpec<TTags extends AnyTag>(
+	entries: readonly Entry<TTags>[]
+): DependencyLifecycle<Map<string, unknown>, TTags> {
+	const collection = collectionSpec(entries.map((entry) => entry.spec));
+	return {
+		create: (ctx) =>
+			andThen(
+				collection.create(ctx),
+				(values) =>
+					new Map(
+						entries.map((entry, index) => [
+							entry.key,
+							values[index],
+						])
+					)
+			),
+		cleanup: (map) =>
+			collection.cleanup?.(entries.map((entry) => map.get(entry.key))),
+	};
+}
+
+/**
+ * Appends an entry to a MapTag's entries, rejecting duplicate keys.
+ * @internal
+ */
+function appendEntry<TTags extends AnyTag>(
+	tag: AnyTag,
+	entries: readonly Entry<TTags>[],
+	key: string,
+	spec: ContributionSpec<unknown, TTags>,
+	source: string
+): Entry<TTags>[] {
+	const existing = entries.find((entry) => entry.key === key);
+	if (existing) {
+		throw new DuplicateEntryKeyError(tag, key, [existing.source, source]);
+	}
+	return [...entries, { key, spec, source }];
+}
+
+/**
+ * Extracts the registration options from a lifecycle object.
+ * @internal
+ */
+function getOptions(spec: DependencyOptions): DependencyOptions {
+	return {
+		lifetime: spec.lifetime,
+		scope: spec.scope,
+		createTimeout: spec.createTimeout,
+		cleanupTimeout: spec.cleanupTimeout,
+		retry: spec.retry,
+		autoDispose: spec.autoDispose,
+	};
+}
+
+/**
+ * Returns the finalizer of a registration. Without a cleanup function,
+ * disposable instances are disposed unless `autoDispose` is `false`.
+ * @internal
+ */
+function getFinalizer<TTags extends AnyTag>(
+	registration: Registration<TTags>
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Finalizer<any> | undefined {
+	return (
+		registration.finalizer ??
+		(registration.options?.autoDispose === false ? undefined : dispose)
+	);
+}
+
+/**
+ * How a container resolves a tag: an alias with the container that owns
+ * it, a recipe with the container that creates its instances, or a parent
+ * container to delegate to. Compiled once per tag and container.
+ * @internal
+ */
+type ResolutionPlan<TTags extends AnyTag> =
+	| { alias: AnyTag; owner: Container<TTags> }
+	| { recipe: Recipe<TTags>; container: Container<TTags> }
+	| { parent: IContainer<TTags> };
+
+/**
+ * A registration with the defaults of the container creating its
+ * instances applied.
+ * @internal
+ */
+interface Recipe<TTags extends AnyTag> {
+	readonly factory: Factory<unknown, TTags>;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	readonly finalizer: Finalizer<any> | undefined;
+	readonly decorators: readonly Decorator<unknown, TTags>[];
+	readonly transient: boolean;
+	readonly createTimeout: number | undefined;
+	readonly cleanupTimeout: number | undefined;
+	readonly retry: RetryPolicy | undefined;
+}
+
+/**
+ * A created instance as callers receive it, together with the undecorated
+ * instance its finalizer receives.
+ * @internal
+ */
+interface Created<T> {
+	readonly value: T;
+	readonly original: unknown;
+}
+
+/**
+ * Tags whose factories led to a resolution, innermost first. Linked so that
+ * every factory extends the chain without copying it.
+ * @internal
+ */
+interface ResolutionChain {
+	readonly tag: AnyTag;
+	readonly parent: ResolutionChain | undefined;
+}
+
+/**
+ * Returns whether a resolution chain contains a tag.
+ * @internal
+ */
+function inChain(chain: ResolutionChain | undefined, tag: AnyTag): boolean {
+	for (let link = chain; link !== undefined; link = link.parent) {
+		if (link.tag === tag) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Returns the tags of a resolution chain, outermost first.
+ * @internal
+ */
+function chainTags(chain: ResolutionChain | undefined): AnyTag[] {
+	const tags: AnyTag[] = [];
+	for (let link = chain; link !== undefined; link = link.parent) {
+		tags.push(link.tag);
+	}
+	return tags.reverse();
+}
+
+/**
+ * A registered factory together with its finalizer and options.
+ * @internal
+ */
+interface Registration<TTags extends AnyTag> {
+	factory: Factory<unknown, TTags>;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	finalizer: Finalizer<any> | undefined;
+	options: DependencyOptions | undefined;
+	decorators?: readonly Decorator<unknown, TTags>[];
+}
+
+/**
+ * Tags a container can resolve: its registered tags, plus tags that carry
+ * their own fallback (DefaultTags, and self-wired service classes whose
+ * dependencies the container can resolve).
+ */
+export type ResolvableTag<TTags extends AnyTag> =
+	| TTags
+	| AnyDefaultTag
+	| (WiredServiceTag & { readonly [ServiceRequiresKey]?: TTags });
+
+/**
+ * Applies decorators to a created instance, each receiving the previous
+ * result. If one fails, the undecorated instance is finalized before the
+ * error propagates, since no caller will ever receive it.
+ * @internal
+ */
+function decorate<TTags extends AnyTag>(
+	instance: unknown,
+	decorators: readonly Decorator<unknown, TTags>[],
+	ctx: ResolutionContext<TTags>,
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	finalizer: Finalizer<any> | undefined
+): PromiseOrValue<unknown> {
+	const release = (error: unknown): never => {
+		try {
+			// The decorator error is the one to report
+			void Promise.resolve(finalizer?.(instance)).catch(() => undefined);
+		} catch {
+			// Same as above, for finalizers throwing synchronously
+		}
+		throw error;
+	};
+	try {
+		const decorated = decorators.reduce<PromiseOrValue<unknown>>(
+			(value, decorator) =>
+				andThen(value, (current) => decorator(current, ctx)),
+			instance
+		);
+		return isPromiseLike(decorated)
+			? Promise.resolve(decorated).catch(release)
+			: decorated;
+	} catch (error) {
+		return release(error);
+	}
+}
+
+/**
+ * Resolves a declared dependency: tags are resolved, optional tags are
+ * resolved if registered, raw values are passed through.
+ * Dependencies are resolved synchronously within `resolveSync()`.
+ * Shared by `Layer.service()` and self-wired service classes.
+ * @internal
+ */
+export function resolveDependency(
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	ctx: ResolutionContext<any>,
+	dep: unknown
+): unknown {
+	const sync = ctx instanceof ResolutionContextImpl && ctx.sync;
+	if (Tag.isTag(dep)) {
+		return sync ? ctx.resolveSync(dep) : ctx.resolve(dep);
+	}
+	if (Tag.isOptional(dep)) {
+		const tag = dep[OptionalTagKey];
+		return sync ? ctx.resolveOptionalSync(tag) : ctx.resolveOptional(tag);
+	}
+	return dep;
+}
+
+/**
+ * Instantiates a class with its declared dependencies, synchronously if
+ * none of them had to be awaited.
+ * Shared by `Layer.service()` and self-wired service classes.
+ * @internal
+ */
+export function instantiate<T>(
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	ctx: ResolutionContext<any>,
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	cls: new (...args: any[]) => T,
+	deps: readonly unknown[]
+): PromiseOrValue<T> {
+	return andThen(
+		all(deps.map((dep) => resolveDependency(ctx, dep))),
+		(args) => new cls(...args)
+	);
+}
+
+/**
+ * Returns the registration used when nothing is registered for a tag:
+ * the default of a DefaultTag or the wiring of a self-wired service class.
+ * Returns `undefined` for tags without a fallback.
+ * @internal
+ */
+function getFallbackRegistration<TTags extends AnyTag>(
+	tag: AnyTag
+): Registration<TTags> | undefined {
+	if (Tag.hasDefault(tag)) {
+		const tagDefault = tag[DefaultTagKey];
+		if ('defaultFactory' in tagDefault) {
+			return {
+				factory: () => tagDefault.defaultFactory(),
+				finalizer: undefined,
+				options: undefined,
+			};
+		}
+		// Default values belong to the caller and may be shared, like Layer.value()
+		return {
+			factory: () => tagDefault.default,
+			finalizer: undefined,
+			options: { autoDispose: false },
+		};
+	}
+	if (Tag.hasWiring(tag)) {
+		return {
+			factory: (ctx) => instantiate(ctx, tag, tag.deps),
+			finalizer: tag.cleanup?.bind(tag),
+			options: undefined,
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Context available to factory functions during resolution.
+ *
+ * Provides `resolve` and `resolveAll` for injecting dependencies,
+ * and `resolveOptional` for dependencies that may not be registered.
+ * Synchronous factories use `resolveSync` and `resolveOptionalSync`, which
+ * keeps them usable from `container.resolveSync()`.
+ */
+export type ResolutionContext<TTags extends AnyTag> = Pick<
+	IContainer<TTags>,
+	| 'resolve'
+	| 'resolveAll'
+	| 'resolveOptional'
+	| 'resolveSync'
+	| 'resolveOptionalSync'
+> & {
+	/**
+	 * Aborted when the container creating the instance is destroyed, or
+	 * when the `resolve()` calls waiting for the instance are aborted: the
+	 * caller's signal for transient dependencies, and the signals of every
+	 * caller sharing a singleton. Pass it to long setup work to cancel it.
+	 */
+	readonly signal: AbortSignal;
+};
+
+/**
+ * Options for `resolve()` and `resolveOptional()`.
+ */
+export interface ResolveOptions {
+	/**
+	 * Aborts the resolution: the returned promise rejects with the abort
+	 * reason and factories that are still running see `ctx.signal` aborted,
+	 * unless other callers without an aborted signal wait for the same
+	 * singleton. Instances that get created anyway are cached and finalized
+	 * as usual.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Options for `destroy()`.
+ */
+export interface DestroyOptions {
+	/**
+	 * Aborts the destruction: the returned promise rejects with the abort
+	 * reason and finalizers that have not started yet are skipped.
+	 * The container is destroyed either way.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Resolution functions of the container a context is created by. Each
+ * container has one, shared by the contexts of all its factories.
+ * @internal
+ */
+interface ContextResolver {
+	resolve(
+		chain: ResolutionChain,
+		tag: AnyTag,
+		signal: AbortSignal
+	): Promise<unknown>;
+	resolveOptional(
+		chain: ResolutionChain,
+		tag: AnyTag,
+		signal: AbortSignal
+	): Promise<unknown>;
+	resolveSync(chain: ResolutionChain, tag: AnyTag): unknown;
+	resolveOptionalSync(chain: ResolutionChain, tag: AnyTag): unknown;
+}
+
+/**
+ * Internal implementation of ResolutionContext that carries the resolution chain
+ * for circular dependency detection.
+ * @internal
+ */
+class ResolutionContextImpl<
+	TTags extends AnyTag,
+> implements ResolutionContext<TTags> {
+	constructor(
+		private readonly resolver: ContextResolver,
+		/** The resolution chain ending with the tag being created. */
+		private readonly chain: ResolutionChain,
+		readonly signal: AbortSignal,
+		/** Whether the factory is called by `resolveSync()`. */
+		readonly sync: boolean
+	) {}
+
+	async resolve<T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>,
+		options?: ResolveOptions
+	): Promise<TagType<T>> {
+		const signal = this.withSignal(options);
+		return abortable(
+			this.resolver.resolve(this.chain, tag, signal),
+			options?.signal
+		) as Promise<TagType<T>>;
+	}
+
+	async resolveOptional<T extends AnyTag>(
+		tag: T,
+		options?: ResolveOptions
+	): Promise<TagType<T> | undefined> {
+		const signal = this.withSignal(options);
+		return abortable(
+			this.resolver.resolveOptional(this.chain, tag, signal),
+			options?.signal
+		) as Promise<TagType<T> | undefined>;
+	}
+
+	resolveSync<T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>
+	): TagType<T> {
+		return this.resolver.resolveSync(this.chain, tag) as TagType<T>;
+	}
+
+	resolveOptionalSync<T extends AnyTag>(tag: T): TagType<T> | undefined {
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-return
+		return this.resolver.resolveOptionalSync(this.chain, tag) as
+			| TagType<T>
+			| undefined;
+	}
+
+	/**
+	 * Combines the context signal with the signal of a nested call.
+	 */
+	private withSignal(options: ResolveOptions | undefined): AbortSignal {
+		options?.signal?.throwIfAborted();
+		return options?.signal === undefined
+			? this.signal
+			: AbortSignal.any([this.signal, options.signal]);
+	}
+
+	async resolveAll<const T extends readonly ResolvableTag<TTags>[]>(
+		...tags: T & { [K in keyof T]: ValidWiring<T[K]> }
+	): Promise<{ [K in keyof T]: TagType<T[K]> }> {
+		const promises = tags.map((tag) => this.resolve(tag));
+		const results = await Promise.all(promises);
+		return results as { [K in keyof T]: TagType<T[K]> };
+	}
+}
+
+/**
+ * A dependency in a container's dependency graph.
+ */
+export interface DependencyGraphNode {
+	/** The dependency tag. */
+	readonly tag: AnyTag;
+	/** Human-readable identifier of the tag (see `Tag.id`). */
+	readonly id: string;
+	/** Scope of the container the node belongs to, for scoped containers. */
+	readonly scope: Scope | undefined;
+	/** Whether the container has a factory registered for the tag. */
+	readonly registered: boolean;
+	/** Whether the container has successfully created an instance. */
+	readonly instantiated: boolean;
+	/** Whether instances are finalized when the container is destroyed. */
+	readonly hasFinalizer: boolean;
+	/** Lifetime of the registration. */
+	readonly lifetime: Lifetime;
+	/** Scope the registration is bound to, if any. */
+	readonly boundScope: Scope | undefined;
+}
+
+/**
+ * A dependency edge: the factory of `from` resolved `to`.
+ */
+export interface DependencyGraphEdge {
+	readonly from: DependencyGraphNode;
+	readonly to: DependencyGraphNode;
+}
+
+/**
+ * Snapshot of a container's registrations and the dependencies observed
+ * between them during resolution.
+ */
+export interface DependencyGraph {
+	readonly nodes: readonly DependencyGraphNode[];
+	readonly edges: readonly DependencyGraphEdge[];
+}
+
+/**
+ * Result of `container.init()`.
+ */
+export interface InitReport {
+	/**
+	 * Factories that ran during initialization, in completion order.
+	 *
+	 * `duration` is measured in milliseconds from factory start to
+	 * completion, including time spent waiting for its own dependencies.
+	 */
+	readonly timings: readonly {
+		readonly tag: AnyTag;
+		readonly id: string;
+		readonly duration: number;
+	}[];
+
+	/** Total initialization time in milliseconds. */
+	readonly duration: number;
+}
+
+/**
+ * Payload of events about a single dependency instance.
+ */
+export interface DependencyEvent {
+	/** The dependency tag. */
+	readonly tag: AnyTag;
+	/** Human-readable identifier of the tag (see `Tag.id`). */
+	readonly id: string;
+	/** Scope of the container owning the instance, for scoped containers. */
+	readonly scope: Scope | undefined;
+	/** How long the factory or finalizer ran, in milliseconds. */
+	readonly duration: number;
+}
+
+/**
+ * Payload of events about a failed factory or finalizer.
+ */
+export interface DependencyFailureEvent extends DependencyEvent {
+	/** The error thrown by the factory or finalizer. */
+	readonly error: unknown;
+}
+
+/**
+ * Events emitted by containers, keyed by name.
+ *
+ * Scoped containers also forward the events of their descendants, so a
+ * listener on the root container observes every scope.
+ */
+export interface ContainerEvents {
+	/** An instance was created. */
+	created: DependencyEvent;
+	/** A factory failed; `error` is the resulting `DependencyCreationError`. */
+	creationFailed: DependencyFailureEvent;
+	/** An instance was finalized. */
+	finalized: DependencyEvent;
+	/** A finalizer failed. */
+	finalizationFailed: DependencyFailureEvent;
+	/** A container was destroyed, whether or not its finalizers succeeded. */
+	destroyed: {
+		readonly scope: Scope | undefined;
+		readonly duration: number;
+	};
+	/** A child scope was created from a scoped container. */
+	childCreated: {
+		readonly scope: Scope;
+		readonly child: ScopedContainer;
+	};
+}
+
+/**
+ * Listener for a container event.
+ */
+export type ContainerEventListener<K extends keyof ContainerEvents> = (
+	event: ContainerEvents[K]
+) => void;
+
+/**
+ * Unique symbol for container type branding.
+ */
+export const ContainerTypeId: unique symbol = Symbol.for('sandly/Container');
+
+/**
+ * Interface for dependency containers.
+ *
+ * @template TTags - Union type of registered dependency tags
+ */
+export interface IContainer<TTags extends AnyTag = never> {
+	readonly [ContainerTypeId]: {
+		readonly _TTags: Contravariant<TTags>;
+	};
+
+	resolve: <T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>,
+		options?: ResolveOptions
+	) => Promise<TagType<T>>;
+	resolveAll: <const T extends readonly ResolvableTag<TTags>[]>(
+		...tags: T & { [K in keyof T]: ValidWiring<T[K]> }
+	) => Promise<{ [K in keyof T]: TagType<T[K]> }>;
+	resolveOptional: <T extends AnyTag>(
+		tag: T,
+		options?: ResolveOptions
+	) => Promise<TagType<T> | undefined>;
+	resolveSync: <T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>
+	) => TagType<T>;
+	resolveOptionalSync: <T extends AnyTag>(tag: T) => TagType<T> | undefined;
+	use: <T extends ResolvableTag<TTags>, R>(
+		tag: T & ValidWiring<T>,
+		fn: (service: TagType<T>) => PromiseOrValue<R>
+	) => Promise<R>;
+	destroy(options?: DestroyOptions): Promise<void>;
+	[Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Extracts the registered tags from a container type.
+ */
+export type ContainerTags<C> =
+	C extends IContainer<infer TTags> ? TTags : never;
+
+/**
+ * Common interface for container builders that support adding dependencies.
+ * Used by Layer to work with both ContainerBuilder and ScopedContainerBuilder.
+ */
+export interface IContainerBuilder<TTags extends AnyTag = never> {
+	add<T extends AnyTag>(
+		tag: T,
+		spec: DependencySpec<T, TTags>
+	): IContainerBuilder<TTags | T>;
+	contribute<T extends AnyManyTag>(
+		tag: T,
+		spec: ContributionSpec<ManyTagElement<T>, TTags>
+	): IContainerBuilder<TTags | T>;
+	contributeEntry<T extends AnyMapTag>(
+		tag: T,
+		key: string,
+		spec: ContributionSpec<MapTagEntry<T>, TTags>,
+		source: string
+	): IContainerBuilder<TTags | T>;
+	alias<T extends AnyTag, TTarget extends AnyTag>(
+		tag: T,
+		target: TTarget &
+			(TagType<TTarget> extends TagType<T> ? unknown : never)
+	): IContainerBuilder<TTags | T>;
+	decorate<T extends AnyTag>(
+		tag: T,
+		decorator: Decorator<TagType<T>, TTags>
+	): IContainerBuilder<TTags>;
+	intercept(
+		interceptor: Interceptor | LifecycleInterceptors
+	): IContainerBuilder<TTags>;
+}
+
+/**
+ * Extracts the registered tags from a builder type.
+ */
+export type BuilderTags<B> =
+	B extends IContainerBuilder<infer TTags> ? TTags : never;
+
+/**
+ * Registrations collected by a builder. `ContainerBuilder` and
+ * `ScopedContainerBuilder` share it and only differ in what they build.
+ * @internal
+ */
+class Registrations<TTags extends AnyTag> {
+	readonly factories = new Map<AnyTag, Factory<unknown, TTags>>();
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	readonly finalizers = new Map<AnyTag, Finalizer<any>>();
+	readonly options = new Map<AnyTag, DependencyOptions>();
+	readonly aliases = new Map<AnyTag, AnyTag>();
+	readonly interceptors: LifecycleInterceptors[] = [];
+	defaults: ContainerDefaults = {};
+	private readonly contributions = new Map<
+		AnyTag,
+		ContributionSpec<unknown, TTags>[]
+	>();
+	private readonly entries = new Map<AnyTag, Entry<TTags>[]>();
+	private readonly decorators = new Map<
+		AnyTag,
+		Decorator<unknown, TTags>[]
+	>();
+
+	add<T extends AnyTag>(tag: T, spec: DependencySpec<T, TTags>): void {
+		this.contributions.delete(tag);
+		this.entries.delete(tag);
+		this.aliases.delete(tag);
+		if (typeof spec === 'function') {
+			this.factories.set(tag, spec as Factory<unknown, TTags>);
+			// Remove any existing finalizer and options when registering with just a factory
+			this.finalizers.delete(tag);
+			this.options.delete(tag);
+		} else {
+			// Bind the create method to preserve 'this' context for class instances
+			this.factories.set(
+				tag,
+				spec.create.bind(spec) as Factory<unknown, TTags>
+			);
+			this.options.set(tag, getOptions(spec));
+			if (spec.cleanup) {
+				// Bind the cleanup method to preserve 'this' context for class instances
+				this.finalizers.set(tag, spec.cleanup.bind(spec));
+			} else {
+				// Remove any existing finalizer when registering with just a create function
+				this.finalizers.delete(tag);
+			}
+		}
+	}
+
+	contribute(tag: AnyTag, spec: ContributionSpec<unknown, TTags>): void {
+		const contributions = [...(this.contributions.get(tag) ?? []), spec];
+		this.add<AnyTag>(tag, collectionSpec(contributions));
+		this.contributions.set(tag, contributions);
+	}
+
+	contributeEntry(
+		tag: AnyTag,
+		key: string,
+		spec: ContributionSpec<unknown, TTags>,
+		source: string
+	): void {
+		const entries = appendEntry(
+			tag,
+			this.entries.get(tag) ?? [],
+			key,
+			spec,
+			source
+		);
+		this.add<AnyTag>(tag, entrySpec(entries));
+		this.entries.set(tag, entries);
+	}
+
+	alias(tag: AnyTag, target: AnyTag): void {
+		this.factories.delete(tag);
+		this.finalizers.delete(tag);
+		this.options.delete(tag);
+		this.contributions.delete(tag);
+		this.entries.delete(tag);
+		this.aliases.set(tag, target);
+	}
+
+	decorate(tag: AnyTag, decorator: Decorator<unknown, TTags>): void {
+		const decorators = this.decorators.get(tag) ?? [];
+		decorators.push(decorator);
+		this.decorators.set(tag, decorators);
+	}
+
+	intercept(interceptor: Interceptor | LifecycleInterceptors): void {
+		this.interceptors.push(
+			typeof interceptor === 'function'
+				? { create: interceptor }
+				: interceptor
+		);
+	}
+
+	registers(tag: AnyTag): boolean {
+		return (
+			this.factories.has(tag) ||
+			this.aliases.has(tag) ||
+			getFallbackRegistration(tag) !== undefined
+		);
+	}
+
+	/**
+	 * Returns the decorators by tag, in registration order.
+	 *
+	 * @throws {UnknownDependencyError} If a decorated tag has no registered factory
+	 */
+	getDecorators(): Map<AnyTag, readonly Decorator<unknown, TTags>[]> {
+		for (const tag of this.decorators.keys()) {
+			if (!this.factories.has(tag)) {
+				throw new UnknownDependencyError(tag);
+			}
+		}
+		return new Map(
+			Array.from(
+				this.decorators,
+				([tag, list]) => [tag, [...list]] as const
+			)
+		);
+	}
+}
+
+/**
+ * Builder for constructing immutable containers.
+ *
+ * Use `Container.builder()` to create a builder, then chain `.add()` calls
+ * to register dependencies, and finally call `.build()` to create the container.
+ *
+ * @template TTags - Union type of registered dependency tags
+ *
+ * @example
+ * ```typescript
+ * const container = Container.builder()
+ *   .add(Database, () => new Database())
+ *   .add(UserService, async (ctx) =>
+ *     new UserService(await ctx.resolve(Database))
+ *   )
+ *   .build();
+ * ```
+ */
+export class ContainerBuilder<TTags extends AnyTag = never> {
+	private readonly registrations = new Registrations<TTags>();
+
+	/**
+	 * Registers a dependency with a factory function or lifecycle object.
+	 *
+	 * @param tag - The dependency tag (class or ValueTag)
+	 * @param spec - Factory function or lifecycle object
+	 * @returns The builder with updated type information
+	 */
+	add<T extends AnyTag>(
+		tag: T,
+		spec: DependencySpec<T, TTags>
+	): ContainerBuilder<TTags | T> {
+		this.registrations.add(tag, spec);
+		return this as ContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Contributes an element to a ManyTag.
+	 *
+	 * Each call adds one element; resolving the tag yields all contributed
+	 * elements in registration order. Calling `add()` with the same tag
+	 * replaces the whole collection, discarding earlier contributions.
+	 *
+	 * @param tag - The ManyTag to contribute to
+	 * @param spec - Factory function or lifecycle object for the element
+	 * @returns The builder with updated type information
+	 */
+	contribute<T extends AnyManyTag>(
+		tag: T,
+		spec: ContributionSpec<ManyTagElement<T>, TTags>
+	): ContainerBuilder<TTags | T> {
+		this.registrations.contribute(
+			tag,
+			spec as ContributionSpec<unknown, TTags>
+		);
+		return this as ContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Contributes a keyed entry to a MapTag.
+	 *
+	 * Resolving the tag yields a `Map` of all contributed entries in registration
+	 * order. Calling `add()` with the same tag replaces the whole map.
+	 *
+	 * @param tag - The MapTag to contribute to
+	 * @param key - The entry key, unique within the tag
+	 * @param spec - Factory function or lifecycle object for the entry value
+	 * @param source - Name of the contributor, e.g. the registering module,
+	 *   used to find both contributors when a key is contributed twice
+	 * @returns The builder with updated type information
+	 * @throws DuplicateEntryKeyError if the key was already contributed
+	 */
+	contributeEntry<T extends AnyMapTag>(
+		tag: T,
+		key: string,
+		spec: ContributionSpec<MapTagEntry<T>, TTags>,
+		source: string
+	): ContainerBuilder<TTags | T> {
+		this.registrations.contributeEntry(
+			tag,
+			key,
+			spec as ContributionSpec<unknown, TTags>,
+			source
+		);
+		return this as ContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Registers a tag as an alias of another tag.
+	 *
+	 * Resolving the alias resolves the target, so both share the same cached
+	 * instance and the target's finalizer runs only once. The target's
+	 * instance type must be assignable to the alias.
+	 *
+	 * @param tag - The alias tag
+	 * @param target - The tag to resolve instead
+	 * @returns The builder with updated type information
+	 */
+	alias<T extends AnyTag, TTarget extends AnyTag>(
+		tag: T,
+		target: TTarget &
+			(TagType<TTarget> extends TagType<T> ? unknown : never)
+	): ContainerBuilder<TTags | T> {
+		this.registrations.alias(tag, target);
+		return this as ContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Wraps the instance created for a tag without replacing its factory.
+	 *
+	 * Decorators are applied when the container is built, on top of whichever
+	 * factory is registered for the tag at that point, and run in registration
+	 * order. The tag's finalizer still receives the undecorated instance.
+	 *
+	 * @param tag - The registered tag to decorate
+	 * @param decorator - Function returning the instance to expose
+	 * @returns The builder
+	 */
+	decorate<T extends AnyTag>(
+		tag: T,
+		decorator: Decorator<TagType<T>, TTags>
+	): this {
+		this.registrations.decorate(
+			tag,
+			decorator as Decorator<unknown, TTags>
+		);
+		return this;
+	}
+
+	/**
+	 * Registers an interceptor wrapping every factory invocation, or
+	 * interceptors for several lifecycle stages at once.
+	 *
+	 * Interceptors registered first run outermost. Child scopes inherit
+	 * the interceptors of their parent, which run before their own.
+	 *
+	 * @param interceptor - Function wrapping factory invocations, or an
+	 *   object with `create`, `finalize` and `destroy` interceptors
+	 * @returns The builder
+	 */
+	intercept(interceptor: Interceptor | LifecycleInterceptors): this {
+		this.registrations.intercept(interceptor);
+		return this;
+	}
+
+	/**
+	 * Sets defaults for the options of every registration, such as
+	 * timeouts. Options of individual registrations take precedence.
+	 *
+	 * Child scopes inherit the defaults of their parent.
+	 *
+	 * @param defaults - Options applied to registrations that do not set them
+	 * @returns The builder
+	 */
+	defaults(defaults: ContainerDefaults): this {
+		this.registrations.defaults = {
+			...this.registrations.defaults,
+			...defaults,
+		};
+		return this;
+	}
+
+	/**
+	 * @internal - Used to validate layer requirements before building
+	 */
+	_registers(tag: AnyTag): boolean {
+		return this.registrations.registers(tag);
+	}
+
+	/**
+	 * Creates an immutable container from the registered dependencies.
+	 *
+	 * @throws {UnknownDependencyError} If a decorated tag has no registered factory
+	 */
+	build(): Container<TTags> {
+		const { factories, finalizers, options, aliases, interceptors } =
+			this.registrations;
+		return Container._createFromBuilder(
+			factories,
+			finalizers,
+			options,
+			aliases,
+			this.registrations.getDecorators(),
+			interceptors,
+			this.registrations.defaults
+		);
+	}
+}
+
+/**
+ * Type-safe dependency injection container.
+ *
+ * Containers are immutable - use `Container.builder()` to create one.
+ * Each dependency is created once (singleton) and cached, unless it is
+ * registered with a `'transient'` lifetime.
+ *
+ * @template TTags - Union type of registered dependency tags
+ *
+ * @example
+ * ```typescript
+ * class Database {
+ *   query(sql: string) { return []; }
+ * }
+ *
+ * class UserService {
+ *   constructor(private db: Database) {}
+ *   getUsers() { return this.db.query('SELECT * FROM users'); }
+ * }
+ *
+ * const container = Container.builder()
+ *   .add(Database, () => new Database())
+ *   .add(UserService, async (ctx) =>
+ *     new UserService(await ctx.resolve(Database))
+ *   )
+ *   .build();
+ *
+ * const userService = await container.resolve(UserService);
+ * ```
+ */
+export class Container<
+	TTags extends AnyTag = never,
+> implements IContainer<TTags> {
+	readonly [ContainerTypeId]!: {
+		readonly _TTags: Contravariant<TTags>;
+	};
+
+	/**
+	 * Cache of instantiated dependencies.
+	 * @internal
+	 */
+	protected readonly cache = new Map<AnyTag, Promise<unknown>>();
+
+	/**
+	 * Signals of singletons being created for callers that passed a signal.
+	 * @internal
+	 */
+	protected readonly creations = new Map<AnyTag, CreationSignal>();
+
+	/**
+	 * Singleton instances that have been created, for `resolveSync()`.
+	 * @internal
+	 */
+	protected readonly values = new Map<AnyTag, unknown>();
+
+	/**
+	 * Compiled resolution plans of the tags resolved from this container.
+	 * @internal
+	 */
+	protected readonly plans = new Map<AnyTag, ResolutionPlan<TTags>>();
+
+	/**
+	 * Factory functions for creating dependencies.
+	 * @internal
+	 */
+	protected readonly factories: Map<AnyTag, Factory<unknown, TTags>>;
+
+	/**
+	 * Cleanup functions for dependencies.
+	 * @internal
+	 */
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	protected readonly finalizers: Map<AnyTag, Finalizer<any>>;
+
+	/**
+	 * Registration options for dependencies.
+	 * @internal
+	 */
+	protected readonly options: Map<AnyTag, DependencyOptions>;
+
+	/**
+	 * Aliases registered in this container, mapped to their target tags.
+	 * @internal
+	 */
+	protected readonly aliases: Map<AnyTag, AnyTag>;
+
+	/**
+	 * Decorators of registered dependencies, in registration order.
+	 * @internal
+	 */
+	protected readonly decorators: Map<
+		AnyTag,
+		readonly Decorator<unknown, TTags>[]
+	>;
+
+	/**
+	 * Lifecycle interceptors, outermost first.
+	 * @internal
+	 */
+	protected readonly interceptors: readonly LifecycleInterceptors[];
+
+	/**
+	 * Create interceptors, outermost first.
+	 * @internal
+	 */
+	protected readonly createInterceptors: readonly Interceptor[];
+
+	/**
+	 * Defaults for registration options.
+	 * @internal
+	 */
+	protected readonly defaults: ContainerDefaults;
+
+	/**
+	 * Instances created by this container that need to be finalized,
+	 * one entry per created instance.
+	 * @internal
+	 */
+	protected readonly instances: {
+		tag: AnyTag;
+		instance: Promise<unknown>;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		finalizer: Finalizer<any>;
+		timeout: number | undefined;
+	}[] = [];
+
+	/**
+	 * Dependency edges observed during resolution: each tag created by this
+	 * container maps to the tags its factory resolved.
+	 * @internal
+	 */
+	protected readonly dependencies = new Map<AnyTag, Set<AnyTag>>();
+
+	/**
+	 * Tags for which this container has successfully created an instance.
+	 * @internal
+	 */
+	protected readonly created = new Set<AnyTag>();
+
+	/**
+	 * How long the most recent successful factory invocation took per tag, in milliseconds.
+	 * @internal
+	 */
+	protected readonly timings = new Map<AnyTag, number>();
+
+	/**
+	 * Whether this container has been destroyed.
+	 * @internal
+	 */
+	protected isDestroyed = false;
+
+	/**
+	 * The destruction in progress, shared by concurrent `destroy()` calls.
+	 * @internal
+	 */
+	private destruction: Promise<void> | undefined;
+
+	/**
+	 * Aborted when destruction starts, cancelling in-flight factories.
+	 * @internal
+	 */
+	private readonly lifetime = new AbortController();
+
+	/**
+	 * Resolution functions for the contexts of this container's factories.
+	 * Every dependency a factory resolves is recorded as a dependency of
+	 * the tag it creates, the last one in the chain.
+	 * @internal
+	 */
+	private readonly resolver: ContextResolver = {
+		resolve: (chain, tag, signal) =>
+			this.record(
+				chain,
+				tag,
+				this.resolveInternal(tag as TTags, chain, signal)
+			),
+		resolveOptional: (chain, tag, signal) =>
+			this.record(
+				chain,
+				tag,
+				this.resolveOptionalInternal(tag, chain, signal)
+			),
+		resolveSync: (chain, tag) =>
+			this.record(chain, tag, this.resolveSyncInternal(tag, chain)),
+		resolveOptionalSync: (chain, tag) =>
+			this.record(
+				chain,
+				tag,
+				this.resolveOptionalSyncInternal(tag, chain)
+			),
+	};
+
+	/**
+	 * Event listeners registered with `on()`.
+	 * @internal
+	 */
+	private readonly listeners: {
+		[K in keyof ContainerEvents]: Set<ContainerEventListener<K>>;
+	} = {
+		created: new Set(),
+		creationFailed: new Set(),
+		finalized: new Set(),
+		finalizationFailed: new Set(),
+		destroyed: new Set(),
+		childCreated: new Set(),
+	};
+
+	/**
+	 * @internal - Use Container.builder() or Container.empty()
+	 */
+	protected constructor(
+		factories: Map<AnyTag, Factory<unknown, TTags>>,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		finalizers: Map<AnyTag, Finalizer<any>>,
+		options: Map<AnyTag, DependencyOptions>,
+		aliases: Map<AnyTag, AnyTag>,
+		decorators: Map<AnyTag, readonly Decorator<unknown, TTags>[]>,
+		interceptors: readonly LifecycleInterceptors[],
+		defaults: ContainerDefaults
+	) {
+		this.factories = factories;
+		this.finalizers = finalizers;
+		this.options = options;
+		this.aliases = aliases;
+		this.decorators = decorators;
+		this.interceptors = interceptors;
+		this.createInterceptors = interceptors.flatMap(({ create }) =>
+			create ? [create] : []
+		);
+		this.defaults = defaults;
+	}
+
+	/**
+	 * @internal - Used by ContainerBuilder
+	 */
+	static _createFromBuilder<T extends AnyTag>(
+		factories: Map<AnyTag, Factory<unknown, T>>,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		finalizers: Map<AnyTag, Finalizer<any>>,
+		options: Map<AnyTag, DependencyOptions>,
+		aliases: Map<AnyTag, AnyTag>,
+		decorators: Map<AnyTag, readonly Decorator<unknown, T>[]>,
+		interceptors: readonly LifecycleInterceptors[],
+		defaults: ContainerDefaults
+	): Container<T> {
+		return new Container(
+			factories,
+			finalizers,
+			options,
+			aliases,
+			decorators,
+			[...interceptors],
+			{ ...defaults }
+		);
+	}
+
+	/**
+	 * Creates a new container builder.
+	 *
+	 * @example
+	 * ```typescript
+	 * const container = Container.builder()
+	 *   .add(Database, () => new Database())
+	 *   .build();
+	 * ```
+	 */
+	static builder(): ContainerBuilder {
+		return new ContainerBuilder();
+	}
+
+	/**
+	 * Creates an empty container with no dependencies.
+	 *
+	 * Shorthand for `Container.builder().build()`.
+	 */
+	static empty(): Container {
+		return Container.builder().build();
+	}
+
+	/**
+	 * Creates a scoped container for hierarchical dependency management.
+	 *
+	 * Scoped containers support parent/child relationships where children
+	 * can access parent dependencies but maintain their own cache.
+	 *
+	 * @param scope - Identifier for the scope (for debugging)
+	 *
+	 * @example
+	 * ```typescript
+	 * const appContainer = Container.scoped('app');
+	 * // ... add app-level dependencies
+	 *
+	 * const requestContainer = appContainer.child('request');
+	 * // ... add request-specific dependencies
+	 * ```
+	 */
+	static scoped(scope: string | symbol): ScopedContainer {
+		return ScopedContainer.empty(scope);
+	}
+
+	/**
+	 * Creates a container from a layer.
+	 *
+	 * This is a convenience method equivalent to applying a layer to
+	 * `Container.builder()` and building the result.
+	 *
+	 * @param layer - A layer with no requirements (all dependencies satisfied)
+	 * @throws {MissingDependenciesError} If the layer has unsatisfied requirements at runtime
+	 *
+	 * @example
+	 * ```typescript
+	 * const dbLayer = Layer.service(Database, []);
+	 * const container = Container.from(dbLayer);
+	 *
+	 * const db = await container.resolve(Database);
+	 * ```
+	 */
+	static from<TProvides extends AnyTag>(
+		layer: Layer<never, TProvides>
+	): Container<TProvides> {
+		const builder = layer.apply(Container.builder());
+		const missing = layer.requires.filter(
+			(tag) => !builder._registers(tag)
+		);
+		if (missing.length > 0) {
+			throw new MissingDependenciesError(missing);
+		}
+		return builder.build();
+	}
+
+	/**
+	 * Resolves a dependency, creating it if necessary.
+	 *
+	 * Singleton dependencies return the same instance on subsequent calls.
+	 * Transient dependencies are created anew on every call.
+	 *
+	 * @param tag - The dependency tag to resolve
+	 * @param options - Resolution options, e.g. an `AbortSignal`
+	 * @returns Promise resolving to the dependency instance
+	 * @throws {ContainerDestroyedError} If the container has been destroyed
+	 * @throws {UnknownDependencyError} If any dependency is not registered
+	 * @throws {CircularDependencyError} If a circular dependency is detected
+	 * @throws {DependencyCreationError} If any factory function throws an error
+	 *
+	 * @example
+	 * ```typescript
+	 * // Stop waiting when the client disconnects
+	 * const handler = await scope.resolve(RequestHandler, {
+	 *   signal: request.signal,
+	 * });
+	 * ```
+	 */
+	async resolve<T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>,
+		options?: ResolveOptions
+	): Promise<TagType<T>> {
+		const signal = options?.signal;
+		signal?.throwIfAborted();
+		return abortable(this.resolveInternal(tag, undefined, signal), signal);
+	}
+
+	/**
+	 * Internal resolution with dependency chain tracking.
+	 * @internal
+	 */
+	protected resolveInternal<T extends ResolvableTag<TTags>>(
+		tag: T,
+		chain: ResolutionChain | undefined,
+		signal?: AbortSignal
+	): Promise<TagType<T>> {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		const plan = this.plan(tag);
+		if ('alias' in plan) {
+			return this.resolveAlias(
+				tag,
+				plan.alias,
+				chain,
+				signal,
+				plan.owner
+			);
+		}
+		if ('parent' in plan) {
+			return plan.parent.resolve(tag as T & ValidWiring<T>, { signal });
+		}
+		return plan.container.resolveWith(tag, chain, plan.recipe, signal);
+	}
+
+	/**
+	 * Returns the resolution plan of a tag, compiling it on first use.
+	 * @internal
+	 */
+	protected plan(tag: AnyTag): ResolutionPlan<TTags> {
+		let plan = this.plans.get(tag);
+		if (plan === undefined) {
+			plan = this.compile(tag);
+			this.plans.set(tag, plan);
+		}
+		return plan;
+	}
+
+	/**
+	 * Compiles the plan for resolving a tag from this container.
+	 * @internal
+	 */
+	protected compile(tag: AnyTag): ResolutionPlan<TTags> {
+		const target = this.aliases.get(tag);
+		if (target !== undefined) {
+			return { alias: target, owner: this };
+		}
+
+		const registration =
+			this.getRegistration(tag) ?? getFallbackRegistration(tag);
+		if (registration === undefined) {
+			throw new UnknownDependencyError(tag);
+		}
+
+		// A plain container has no scopes, so scope-bound dependencies can never be created
+		const scope = registration.options?.scope;
+		if (scope !== undefined) {
+			throw new ScopeNotFoundError(tag, scope);
+		}
+
+		return { recipe: this.recipe(registration), container: this };
+	}
+
+	/**
+	 * Applies this container's defaults to a registration whose instances
+	 * it creates.
+	 * @internal
+	 */
+	protected recipe(registration: Registration<TTags>): Recipe<TTags> {
+		const { factory, options } = registration;
+		return {
+			factory,
+			finalizer: getFinalizer(registration),
+			decorators: registration.decorators ?? [],
+			transient: options?.lifetime === 'transient',
+			createTimeout:
+				options?.createTimeout ?? this.defaults.createTimeout,
+			cleanupTimeout:
+				options?.cleanupTimeout ?? this.defaults.cleanupTimeout,
+			retry: options?.retry ?? this.defaults.retry,
+		};
+	}
+
+	/**
+	 * Resolves a dependency synchronously, creating it if necessary.
+	 *
+	 * Works when every factory in the dependency's subgraph is synchronous,
+	 * or the instances were already created. Use it on hot paths and at
+	 * boundaries where async code is not allowed. Within synchronous
+	 * factories, resolve dependencies with `ctx.resolveSync()`.
+	 *
+	 * Containers with creation interceptors cannot create instances here.
+	 * Timeouts and retry policies do not apply to synchronous resolution:
+	 * factories run once, without a `createTimeout`.
+	 *
+	 * @param tag - The dependency tag to resolve
+	 * @returns The dependency instance
+	 * @throws {AsyncFactoryError} If a dependency cannot be created synchronously
+	 * @throws {ContainerDestroyedError} If the container has been destroyed
+	 * @throws {UnknownDependencyError} If any dependency is not registered
+	 * @throws {CircularDependencyError} If a circular dependency is detected
+	 * @throws {DependencyCreationError} If any factory function throws an error
+	 *
+	 * @example
+	 * ```typescript
+	 * const container = Container.builder()
+	 *   .add(Config, () => loadConfig())
+	 *   .add(Parser, (ctx) => new Parser(ctx.resolveSync(Config)))
+	 *   .build();
+	 *
+	 * const parser = container.resolveSync(Parser);
+	 * ```
+	 */
+	resolveSync<T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>
+	): TagType<T> {
+		return this.resolveSyncInternal(tag, undefined) as TagType<T>;
+	}
+
+	/**
+	 * Resolves a dependency synchronously if it is registered, or returns
+	 * `undefined` otherwise. See `resolveSync()`.
+	 *
+	 * @param tag - The dependency tag to resolve
+	 * @returns The dependency instance, or `undefined`
+	 * @throws {AsyncFactoryError} If a dependency cannot be created synchronously
+	 * @throws {ContainerDestroyedError} If the container has been destroyed
+	 * @throws {UnknownDependencyError} If a registered dependency requires an unregistered one
+	 * @throws {CircularDependencyError} If a circular dependency is detected
+	 * @throws {DependencyCreationError} If any factory function throws an error
+	 */
+	resolveOptionalSync<T extends AnyTag>(tag: T): TagType<T> | undefined {
+		// eslint-disable-next-line @typescript-eslint/no-unsafe-return
+		return this.resolveOptionalSyncInternal(tag, undefined) as
+			| TagType<T>
+			| undefined;
+	}
+
+	/**
+	 * Internal synchronous resolution with dependency chain tracking.
+	 * @internal
+	 */
+	protected resolveSyncInternal(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined
+	): unknown {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		const plan = this.plan(tag);
+		if ('alias' in plan) {
+			if (inChain(chain, tag)) {
+				throw new CircularDependencyError(tag, chainTags(chain));
+			}
+			const instance = this.resolveSyncInternal(plan.alias, {
+				tag,
+				parent: chain,
+			});
+			plan.owner.recordDependency(tag, plan.alias);
+			return instance;
+		}
+		if ('parent' in plan) {
+			return plan.parent.resolveSync(tag as TTags & ValidWiring<TTags>);
+		}
+		return plan.container.createSync(tag, chain, plan.recipe);
+	}
+
+	/**
+	 * Internal synchronous optional resolution with dependency chain tracking.
+	 * @internal
+	 */
+	protected resolveOptionalSyncInternal(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined
+	): unknown {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		if (
+			!this.factories.has(tag) &&
+			!this.aliases.has(tag) &&
+			getFallbackRegistration(tag) === undefined
+		) {
+			return undefined;
+		}
+		return this.resolveSyncInternal(tag, chain);
+	}
+
+	/**
+	 * Resolves a dependency if it is registered, or returns `undefined` otherwise.
+	 *
+	 * Use this for dependencies that are genuinely optional, such as a telemetry
+	 * exporter that is only registered in production. Errors other than the
+	 * dependency itself being unregistered (e.g. a failing factory) still propagate.
+	 *
+	 * @param tag - The dependency tag to resolve
+	 * @param options - Resolution options, e.g. an `AbortSignal`
+	 * @returns Promise resolving to the dependency instance, or `undefined`
+	 * @throws {ContainerDestroyedError} If the container has been destroyed
+	 * @throws {UnknownDependencyError} If a registered dependency requires an unregistered one
+	 * @throws {CircularDependencyError} If a circular dependency is detected
+	 * @throws {DependencyCreationError} If any factory function throws an error
+	 */
+	async resolveOptional<T extends AnyTag>(
+		tag: T,
+		options?: ResolveOptions
+	): Promise<TagType<T> | undefined> {
+		const signal = options?.signal;
+		signal?.throwIfAborted();
+		return abortable(
+			this.resolveOptionalInternal(tag, undefined, signal),
+			signal
+		) as Promise<TagType<T> | undefined>;
+	}
+
+	/**
+	 * Internal optional resolution with dependency chain tracking.
+	 * @internal
+	 */
+	protected resolveOptionalInternal(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined,
+		signal?: AbortSignal
+	): Promise<unknown> {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		if (
+			!this.factories.has(tag) &&
+			!this.aliases.has(tag) &&
+			getFallbackRegistration(tag) === undefined
+		) {
+			return Promise.resolve(undefined);
+		}
+		return this.resolveInternal(tag as TTags, chain, signal);
+	}
+
+	/**
+	 * Resolves an alias by resolving its target from this container.
+	 * The dependency edge is recorded in the container that owns the alias.
+	 * @internal
+	 */
+	protected resolveAlias<T extends ResolvableTag<TTags>>(
+		tag: T,
+		target: AnyTag,
+		chain: ResolutionChain | undefined,
+		signal: AbortSignal | undefined,
+		owner: Container<TTags>
+	): Promise<TagType<T>> {
+		if (inChain(chain, tag)) {
+			throw new CircularDependencyError(tag, chainTags(chain));
+		}
+		const dependency = this.resolveInternal(
+			target as TTags,
+			{ tag, parent: chain },
+			signal
+		);
+		owner.recordDependency(tag, target);
+		return dependency as Promise<TagType<T>>;
+	}
+
+	/**
+	 * Returns whether this container has a factory or alias for a tag.
+	 * @internal
+	 */
+	protected registers(tag: AnyTag): boolean {
+		return this.factories.has(tag) || this.aliases.has(tag);
+	}
 
 	/**
-	 * @internal - Use Container.builder() or Container.empty()
+	 * Returns whether a container has a factory or alias for a tag. Other
+	 * `IContainer` implementations cannot be inspected, so they are trusted.
+	 * @internal
 	 */
-	protected constructor(
-		factories: Map<AnyTag, Factory<unknown, TTags>>,
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		finalizers: Map<AnyTag, Finalizer<any>>
-	) {
-		this.factories = factories;
-		this.finalizers = finalizers;
+	protected static registersIn<TTags extends AnyTag>(
+		container: IContainer<TTags>,
+		tag: AnyTag
+	): boolean {
+		return !(container instanceof Container) || container.registers(tag);
 	}
 
 	/**
-	 * @internal - Used by ContainerBuilder
+	 * Returns the registration for a tag in this container, if any.
+	 * @internal
 	 */
-	static _createFromBuilder<T extends AnyTag>(
-		factories: Map<AnyTag, Factory<unknown, T>>,
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		finalizers: Map<AnyTag, Finalizer<any>>
-	): Container<T> {
-		return new Container(factories, finalizers);
+	protected getRegistration(tag: AnyTag): Registration<TTags> | undefined {
+		const factory = this.factories.get(tag);
+		if (factory === undefined) {
+			return undefined;
+		}
+		return {
+			factory,
+			finalizer: this.finalizers.get(tag),
+			options: this.options.get(tag),
+			decorators: this.decorators.get(tag),
+		};
 	}
 
 	/**
-	 * Creates a new container builder.
+	 * Resolves a dependency in this container using the given recipe, which
+	 * may be compiled from another container's registration (e.g. a parent
+	 * scope).
 	 *
-	 * @example
-	 * ```typescript
-	 * const container = Container.builder()
-	 *   .add(Database, () => new Database())
-	 *   .build();
-	 * ```
+	 * The created instance is cached and finalized by this container.
+	 * @internal
 	 */
-	static builder(): ContainerBuilder {
-		return new ContainerBuilder();
+	protected resolveWith<T extends ResolvableTag<TTags>>(
+		tag: T,
+		chain: ResolutionChain | undefined,
+		recipe: Recipe<TTags>,
+		signal?: AbortSignal
+	): Promise<TagType<T>> {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		// Factories of this container resolve with its lifetime signal,
+		// which already bounds every creation here
+		const caller = signal === this.lifetime.signal ? undefined : signal;
+
+		// Check cache first
+		const cached = this.cache.get(tag) as Promise<TagType<T>> | undefined;
+		if (cached !== undefined) {
+			this.creations.get(tag)?.join(caller);
+			return cached;
+		}
+
+		// Finalizers are already scheduled, so a new instance would never be finalized
+		if (this.lifetime.signal.aborted) {
+			throw new ContainerDestroyedError(
+				'Cannot create dependencies while the container is being destroyed'
+			);
+		}
+
+		// Check for circular dependency
+		if (inChain(chain, tag)) {
+			throw new CircularDependencyError(tag, chainTags(chain));
+		}
+
+		const { factory, finalizer, createTimeout, retry } = recipe;
+
+		// Singletons are shared, so only abort them once every caller aborted
+		const creation =
+			caller === undefined || recipe.transient
+				? undefined
+				: new CreationSignal();
+		creation?.join(caller);
+		const contextSignal =
+			caller === undefined
+				? this.lifetime.signal
+				: AbortSignal.any([
+						this.lifetime.signal,
+						creation?.signal ?? caller,
+					]);
+		const context = this.createContext(tag, chain, contextSignal, false);
+
+		const scope = this instanceof ScopedContainer ? this.scope : undefined;
+		const run = async () => {
+			const start = performance.now();
+			const instance = await factory(context);
+			this.timings.set(tag, performance.now() - start);
+			return instance;
+		};
+		let invoke = run;
+		if (this.createInterceptors.length > 0) {
+			const info: InterceptorInfo = { chain: chainTags(chain), scope };
+			invoke = intercepted(
+				run,
+				this.createInterceptors.map(
+					(create) => (next: () => Promise<unknown>) =>
+						create(tag, next, info)
+				)
+			);
+		}
+
+		// Timeouts of this registration are reported as is rather than wrapped
+		const timeouts = new Map<DependencyTimeoutError, number>();
+		const attempt = (): Promise<unknown> => {
+			const pending = invoke();
+			return withTimeout(pending, createTimeout, (ms) => {
+				const timeoutError = new DependencyTimeoutError(
+					tag,
+					'create',
+					ms,
+					chainTags(chain)
+				);
+				timeouts.set(timeoutError, ms);
+				// Finalize the instance if the factory eventually completes
+				pending.then(finalizer).catch(() => undefined);
+				return timeoutError;
+			});
+		};
+
+		const createInstance = async (): Promise<Created<TagType<T>>> => {
+			const start = performance.now();
+			const failures: unknown[] = [];
+			try {
+				const instance = await (retry === undefined
+					? attempt()
+					: withRetry(attempt, retry, failures, contextSignal));
+				const value = await decorate(
+					instance,
+					recipe.decorators,
+					context,
+					finalizer
+				);
+				this.created.add(tag);
+				this.emit('created', {
+					tag,
+					id: Tag.id(tag),
+					scope,
+					duration: performance.now() - start,
+				});
+				return { value: value as TagType<T>, original: instance };
+			} catch (cause) {
+				const timeout =
+					cause instanceof DependencyTimeoutError
+						? timeouts.get(cause)
+						: undefined;
+				const error =
+					timeout === undefined
+						? new DependencyCreationError(tag, cause, failures)
+						: failures.length > 1
+							? new DependencyTimeoutError(
+									tag,
+									'create',
+									timeout,
+									chainTags(chain),
+									failures
+								)
+							: cause;
+				this.emit('creationFailed', {
+					tag,
+					id: Tag.id(tag),
+					scope,
+					duration: performance.now() - start,
+					error,
+				});
+				throw error;
+			}
+		};
+
+		if (recipe.transient) {
+			return this.track(
+				tag,
+				createInstance(),
+				finalizer,
+				recipe.cleanupTimeout
+			);
+		}
+
+		// Create and cache the promise
+		const instancePromise: Promise<TagType<T>> = this.track(
+			tag,
+			createInstance(),
+			finalizer,
+			recipe.cleanupTimeout
+		).then(
+			(instance) => {
+				this.settleCreation(tag, creation);
+				if (!this.isDestroyed) {
+					this.values.set(tag, instance);
+				}
+				return instance;
+			},
+			(error: unknown) => {
+				this.settleCreation(tag, creation);
+				// Remove failed promise from cache
+				this.cache.delete(tag);
+				throw error;
+			}
+		);
+
+		// Cache the promise immediately to prevent race conditions during concurrent access.
+		// Multiple concurrent resolve() calls will share the same promise, ensuring singleton behavior
+		// even when the factory is async and takes time to complete.
+		this.cache.set(tag, instancePromise);
+		if (creation !== undefined) {
+			this.creations.set(tag, creation);
+		}
+		return instancePromise;
 	}
 
 	/**
-	 * Creates an empty container with no dependencies.
-	 *
-	 * Shorthand for `Container.builder().build()`.
+	 * Stops tracking the callers of a singleton once it has been created.
+	 * @internal
 	 */
-	static empty(): Container {
-		return Container.builder().build();
+	private settleCreation(
+		tag: AnyTag,
+		creation: CreationSignal | undefined
+	): void {
+		if (creation !== undefined) {
+			creation.settle();
+			this.creations.delete(tag);
+		}
 	}
 
 	/**
-	 * Creates a scoped container for hierarchical dependency management.
-	 *
-	 * Scoped containers support parent/child relationships where children
-	 * can access parent dependencies but maintain their own cache.
-	 *
-	 * @param scope - Identifier for the scope (for debugging)
-	 *
-	 * @example
-	 * ```typescript
-	 * const appContainer = Container.scoped('app');
-	 * // ... add app-level dependencies
-	 *
-	 * const requestContainer = appContainer.child('request');
-	 * // ... add request-specific dependencies
-	 * ```
+	 * Synchronous counterpart of `resolveWith()`. Creation interceptors,
+	 * timeouts and retries are async, so they are not supported here.
+	 * @internal
 	 */
-	static scoped(scope: string | symbol): ScopedContainer {
-		return ScopedContainer.empty(scope);
+	protected createSync(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined,
+		recipe: Recipe<TTags>
+	): unknown {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		if (this.values.has(tag)) {
+			return this.values.get(tag);
+		}
+		if (this.cache.has(tag)) {
+			throw new AsyncFactoryError(tag, 'pending', chainTags(chain));
+		}
+
+		// Finalizers are already scheduled, so a new instance would never be finalized
+		if (this.lifetime.signal.aborted) {
+			throw new ContainerDestroyedError(
+				'Cannot create dependencies while the container is being destroyed'
+			);
+		}
+
+		if (inChain(chain, tag)) {
+			throw new CircularDependencyError(tag, chainTags(chain));
+		}
+
+		if (this.createInterceptors.length > 0) {
+			throw new AsyncFactoryError(tag, 'intercepted', chainTags(chain));
+		}
+
+		const { factory, finalizer } = recipe;
+		const context = this.createContext(
+			tag,
+			chain,
+			this.lifetime.signal,
+			true
+		);
+		const scope = this instanceof ScopedContainer ? this.scope : undefined;
+
+		const start = performance.now();
+		let instance: unknown;
+		let value: unknown;
+		try {
+			instance = factory(context);
+			if (isPromiseLike(instance)) {
+				// Finalize the instance if the factory eventually completes
+				Promise.resolve(instance)
+					.then(finalizer)
+					.catch(() => undefined);
+				throw new AsyncFactoryError(tag, 'async', chainTags(chain));
+			}
+			const original = instance;
+			value = decorate(original, recipe.decorators, context, finalizer);
+			if (isPromiseLike(value)) {
+				// Finalize the instance if the decorators eventually complete
+				Promise.resolve(value)
+					.then(() => finalizer?.(original))
+					.catch(() => undefined);
+				throw new AsyncFactoryError(tag, 'async', chainTags(chain));
+			}
+		} catch (cause) {
+			// Name the dependency that blocks synchronous resolution
+			const error =
+				cause instanceof AsyncFactoryError
+					? cause
+					: new DependencyCreationError(tag, cause);
+			this.emit('creationFailed', {
+				tag,
+				id: Tag.id(tag),
+				scope,
+				duration: performance.now() - start,
+				error,
+			});
+			throw error;
+		}
+
+		const duration = performance.now() - start;
+		this.timings.set(tag, duration);
+		this.created.add(tag);
+		this.emit('created', { tag, id: Tag.id(tag), scope, duration });
+
+		// The instance is known, so only disposable ones are tracked for disposal
+		if (finalizer !== dispose || isDisposable(instance)) {
+			void this.track(
+				tag,
+				Promise.resolve({ value, original: instance }),
+				finalizer,
+				recipe.cleanupTimeout
+			);
+		}
+		if (!recipe.transient) {
+			this.cache.set(tag, Promise.resolve(value));
+			this.values.set(tag, value);
+		}
+		return value;
 	}
 
 	/**
-	 * Creates a container from a layer.
-	 *
-	 * This is a convenience method equivalent to applying a layer to
-	 * `Container.builder()` and building the result.
+	 * Records the dependency of the factory at the end of `chain` on `tag`
+	 * and passes its resolution result through.
+	 * @internal
+	 */
+	private record<R>(chain: ResolutionChain, tag: AnyTag, result: R): R {
+		this.recordDependency(chain.tag, tag);
+		return result;
+	}
+
+	/**
+	 * Creates the context passed to the factory of `tag`.
+	 * @internal
+	 */
+	private createContext(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined,
+		signal: AbortSignal,
+		sync: boolean
+	): ResolutionContextImpl<TTags> {
+		return new ResolutionContextImpl(
+			this.resolver,
+			{ tag, parent: chain },
+			signal,
+			sync
+		);
+	}
+
+	/**
+	 * Tracks a freshly created instance so its finalizer runs on destroy
+	 * with the undecorated instance, and returns the instance callers
+	 * receive. Instances whose creation fails are not tracked, nor are
+	 * instances tracked for automatic disposal that turn out not to be
+	 * disposable.
+	 * @internal
+	 */
+	private track<T>(
+		tag: AnyTag,
+		created: Promise<Created<T>>,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		finalizer: Finalizer<any> | undefined,
+		timeout: number | undefined
+	): Promise<T> {
+		const value = created.then((result) => result.value);
+		if (finalizer === undefined) {
+			return value;
+		}
+
+		const instance = created.then((result) => result.original);
+		const entry = { tag, instance, finalizer, timeout };
+		this.instances.push(entry);
+		const untrack = () => {
+			const index = this.instances.indexOf(entry);
+			if (index !== -1) {
+				this.instances.splice(index, 1);
+			}
+		};
+		instance.then((original) => {
+			if (finalizer === dispose && !isDisposable(original)) {
+				untrack();
+			}
+		}, untrack);
+		return value;
+	}
+
+	/**
+	 * Records that the factory of `dependent` resolved `dependency`.
+	 * @internal
+	 */
+	private recordDependency(dependent: AnyTag, dependency: AnyTag): void {
+		let dependencies = this.dependencies.get(dependent);
+		if (dependencies === undefined) {
+			dependencies = new Set();
+			this.dependencies.set(dependent, dependencies);
+		}
+		dependencies.add(dependency);
+	}
+
+	/**
+	 * Runs all finalizers in reverse dependency order.
 	 *
-	 * @param layer - A layer with no requirements (all dependencies satisfied)
+	 * A tag's finalizers start only after the finalizers of every tag that
+	 * depends on it have settled. Independent branches run concurrently.
 	 *
-	 * @example
-	 * ```typescript
-	 * const dbLayer = Layer.service(Database, []);
-	 * const container = Container.from(dbLayer);
+	 * Once `signal` is aborted, finalizers that have not started are skipped.
 	 *
-	 * const db = await container.resolve(Database);
-	 * ```
+	 * @returns The errors thrown by failing finalizers
+	 * @internal
 	 */
-	static from<TProvides extends AnyTag>(
-		layer: Layer<never, TProvides>
-	): Container<TProvides> {
-		const builder = Container.builder();
-		const resultBuilder = layer.apply(builder);
-		return resultBuilder.build();
+	private async runFinalizers(signal?: AbortSignal): Promise<unknown[]> {
+		const dependents = new Map<AnyTag, AnyTag[]>();
+		for (const [dependent, dependencies] of this.dependencies) {
+			for (const dependency of dependencies) {
+				const list = dependents.get(dependency) ?? [];
+				list.push(dependent);
+				dependents.set(dependency, list);
+			}
+		}
+
+		const scope = this instanceof ScopedContainer ? this.scope : undefined;
+		const failures: unknown[] = [];
+		const scheduled = new Map<AnyTag, Promise<void>>();
+
+		const schedule = (tag: AnyTag, path: Set<AnyTag>): Promise<void> => {
+			const existing = scheduled.get(tag);
+			if (existing !== undefined) {
+				return existing;
+			}
+
+			// Skip edges back into the current path so a cycle cannot deadlock
+			path.add(tag);
+			const waitFor = (dependents.get(tag) ?? [])
+				.filter((dependent) => !path.has(dependent))
+				.map((dependent) => schedule(dependent, path));
+			path.delete(tag);
+
+			const entries = this.instances.filter((entry) => entry.tag === tag);
+			const promise = Promise.all(waitFor).then(async () => {
+				const results = await Promise.allSettled(
+					entries.map(async ({ instance, finalizer, timeout }) => {
+						// Wait for factories that are still running; failed
+						// creations leave nothing to finalize
+						let value: unknown;
+						try {
+							value = await instance;
+						} catch {
+							return;
+						}
+						if (signal?.aborted === true) {
+							return;
+						}
+						const finalize = intercepted(
+							async () => {
+								await finalizer(value);
+							},
+							this.interceptors.flatMap(({ finalize }) =>
+								finalize
+									? [
+											(next: () => Promise<void>) =>
+												finalize(tag, next, { scope }),
+										]
+									: []
+							)
+						);
+						const start = performance.now();
+						try {
+							await withTimeout(
+								finalize(),
+								timeout,
+								(ms) =>
+									new DependencyTimeoutError(
+										tag,
+										'cleanup',
+										ms
+									)
+							);
+							this.emit('finalized', {
+								tag,
+								id: Tag.id(tag),
+								scope,
+								duration: performance.now() - start,
+							});
+						} catch (error) {
+							this.emit('finalizationFailed', {
+								tag,
+								id: Tag.id(tag),
+								scope,
+								duration: performance.now() - start,
+								error,
+							});
+							throw error;
+						}
+					})
+				);
+				for (const result of results) {
+					if (result.status === 'rejected') {
+						failures.push(result.reason);
+					}
+				}
+			});
+			scheduled.set(tag, promise);
+			return promise;
+		};
+
+		const tags = new Set([
+			...this.instances.map((entry) => entry.tag),
+			...this.dependencies.keys(),
+		]);
+		await Promise.all(
+			Array.from(tags).map((tag) => schedule(tag, new Set()))
+		);
+
+		return failures;
 	}
 
 	/**
-	 * Resolves a dependency, creating it if necessary.
-	 *
-	 * Dependencies are singletons - the same instance is returned on subsequent calls.
+	 * Resolves multiple dependencies concurrently.
 	 *
-	 * @param tag - The dependency tag to resolve
-	 * @returns Promise resolving to the dependency instance
+	 * @param tags - The dependency tags to resolve
+	 * @returns Promise resolving to a tuple of instances
 	 * @throws {ContainerDestroyedError} If the container has been destroyed
 	 * @throws {UnknownDependencyError} If any dependency is not registered
 	 * @throws {CircularDependencyError} If a circular dependency is detected
 	 * @throws {DependencyCreationError} If any factory function throws an error
 	 */
-	async resolve<T extends TTags>(tag: T): Promise<TagType<T>> {
-		return this.resolveInternal(tag, []);
+	async resolveAll<const T extends readonly ResolvableTag<TTags>[]>(
+		...tags: T & { [K in keyof T]: ValidWiring<T[K]> }
+	): Promise<{ [K in keyof T]: TagType<T[K]> }> {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		// Use Promise.all to resolve all dependencies concurrently
+		const promises = tags.map((tag) => this.resolve(tag));
+		const results = await Promise.all(promises);
+		return results as { [K in keyof T]: TagType<T[K]> };
 	}
 
 	/**
-	 * Internal resolution with dependency chain tracking.
-	 * @internal
+	 * Eagerly creates dependencies so that failures surface at startup
+	 * instead of on first use.
+	 *
+	 * By default, initializes every singleton registered in this container
+	 * (transient and scope-bound registrations are skipped, since they are
+	 * created on demand). All selected dependencies are resolved concurrently;
+	 * each factory only waits for the dependencies it resolves, so independent
+	 * branches of the graph initialize in parallel.
+	 *
+	 * Failures do not stop initialization of the remaining dependencies -
+	 * they are collected and thrown together once everything has settled.
+	 *
+	 * @param tags - Dependencies to initialize. Defaults to all eligible registrations.
+	 * @returns Timings of every factory that ran during initialization
+	 * @throws {ContainerDestroyedError} If the container has been destroyed
+	 * @throws {DependencyInitializationError} If any dependency fails to initialize
+	 *
+	 * @example
+	 * ```typescript
+	 * const container = Container.from(appLayer);
+	 * const report = await container.init();
+	 *
+	 * for (const { id, duration } of report.timings) {
+	 *   console.log(`${id} took ${duration.toFixed(1)}ms`);
+	 * }
+	 * ```
 	 */
-	protected resolveInternal<T extends TTags>(
-		tag: T,
-		chain: AnyTag[]
-	): Promise<TagType<T>> {
+	async init(tags?: readonly ResolvableTag<TTags>[]): Promise<InitReport> {
 		if (this.isDestroyed) {
 			throw new ContainerDestroyedError(
-				'Cannot resolve dependencies from a destroyed container'
+				'Cannot initialize a destroyed container'
 			);
 		}
 
-		// Check cache first
-		const cached = this.cache.get(tag) as Promise<TagType<T>> | undefined;
-		if (cached !== undefined) {
-			return cached;
-		}
+		const selected =
+			tags ??
+			(Array.from(this.factories.keys()).filter((tag) => {
+				const options = this.options.get(tag);
+				return (
+					options?.lifetime !== 'transient' &&
+					(options?.scope === undefined ||
+						(this instanceof ScopedContainer &&
+							options.scope === this.scope))
+				);
+			}) as ResolvableTag<TTags>[]);
 
-		// Check for circular dependency
-		if (chain.includes(tag)) {
-			throw new CircularDependencyError(tag, chain);
-		}
+		const alreadyCreated = new Set(this.created);
+		const start = performance.now();
 
-		// Get factory
-		const factory = this.factories.get(tag) as
-			| Factory<TagType<T>, TTags>
-			| undefined;
+		const results = await Promise.allSettled(
+			selected.map((tag) => this.resolve(tag))
+		);
+		const duration = performance.now() - start;
 
-		if (factory === undefined) {
-			throw new UnknownDependencyError(tag);
+		const failures = results
+			.filter((r) => r.status === 'rejected')
+			.map((r) => r.reason as unknown);
+		if (failures.length > 0) {
+			throw new DependencyInitializationError(failures);
 		}
 
-		// Create resolution context with updated chain
-		const newChain = [...chain, tag];
-		const context = new ResolutionContextImpl((t: AnyTag) =>
-			this.resolveInternal(t as TTags, newChain)
+		const timings = Array.from(this.created)
+			.filter((tag) => !alreadyCreated.has(tag))
+			.map((tag) => ({
+				tag,
+				id: Tag.id(tag),
+				duration: this.timings.get(tag) ?? 0,
+			}));
+
+		return { timings, duration };
+	}
+
+	/**
+	 * Returns a snapshot of the container's dependency graph.
+	 *
+	 * Includes every registered tag, whether it has been instantiated and
+	 * whether it has a finalizer, plus the dependency edges recorded while
+	 * resolving. Inspecting the graph does not create any instances.
+	 *
+	 * @example
+	 * ```typescript
+	 * await container.resolve(UserService);
+	 *
+	 * const { nodes, edges } = container.graph();
+	 * // nodes: Database (instantiated), UserService (instantiated), Cache (pending)
+	 * // edges: UserService -> Database
+	 * ```
+	 */
+	graph(): DependencyGraph {
+		return this.collectGraph([this]);
+	}
+
+	/**
+	 * Builds a dependency graph spanning the given containers, nearest first.
+	 * Edges point to the node of the nearest container that knows the dependency.
+	 * @internal
+	 */
+	protected collectGraph(containers: Container<TTags>[]): DependencyGraph {
+		const nodesByContainer = containers.map((container) =>
+			container.collectNodes()
 		);
 
-		// Create and cache the promise
-		const instancePromise: Promise<TagType<T>> = (async () => {
-			try {
-				const instance = await factory(context);
-				// eslint-disable-next-line @typescript-eslint/no-unsafe-return
-				return instance as TagType<T>;
-			} catch (error) {
-				throw new DependencyCreationError(tag, error);
+		const edges: DependencyGraphEdge[] = [];
+		containers.forEach((container, index) => {
+			const nodes = nodesByContainer[index]!;
+			for (const [tag, dependencies] of container.dependencies) {
+				const from = nodes.get(tag);
+				if (from === undefined) {
+					continue;
+				}
+				for (const dependency of dependencies) {
+					const to = nodesByContainer
+						.slice(index)
+						.map((candidates) => candidates.get(dependency))
+						.find((node) => node !== undefined);
+					if (to !== undefined) {
+						edges.push({ from, to });
+					}
+				}
 			}
-		})().catch((error: unknown) => {
-			// Remove failed promise from cache
-			this.cache.delete(tag);
-			throw error;
 		});
-
-		// Cache the promise immediately to prevent race conditions during concurrent access.
-		// Multiple concurrent resolve() calls will share the same promise, ensuring singleton behavior
-		// even when the factory is async and takes time to complete.
-		this.cache.set(tag, instancePromise);
-		return instancePromise;
+
+		// Farthest ancestor first, so the graph reads top-down
+		return {
+			nodes: nodesByContainer
+				.reverse()
+				.flatMap((nodes) => Array.from(nodes.values())),
+			edges,
+		};
 	}
 
 	/**
-	 * Resolves multiple dependencies concurrently.
-	 *
-	 * @param tags - The dependency tags to resolve
-	 * @returns Promise resolving to a tuple of instances
-	 * @throws {ContainerDestroyedError} If the container has been destroyed
-	 * @throws {UnknownDependencyError} If any dependency is not registered
-	 * @throws {CircularDependencyError} If a circular dependency is detected
-	 * @throws {DependencyCreationError} If any factory function throws an error
+	 * Creates graph nodes for every tag registered or instantiated in this container.
+	 * @internal
 	 */
-	async resolveAll<const T extends readonly TTags[]>(
-		...tags: T
-	): Promise<{ [K in keyof T]: TagType<T[K]> }> {
-		if (this.isDestroyed) {
-			throw new ContainerDestroyedError(
-				'Cannot resolve dependencies from a destroyed container'
-			);
+	private collectNodes(): Map<AnyTag, DependencyGraphNode> {
+		const scope = this instanceof ScopedContainer ? this.scope : undefined;
+		const nodes = new Map<AnyTag, DependencyGraphNode>();
+
+		for (const tag of new Set([
+			...this.factories.keys(),
+			...this.aliases.keys(),
+			...this.created,
+		])) {
+			const options = this.options.get(tag);
+			nodes.set(tag, {
+				tag,
+				id: Tag.id(tag),
+				scope,
+				registered: this.factories.has(tag) || this.aliases.has(tag),
+				instantiated: this.created.has(tag),
+				hasFinalizer:
+					this.finalizers.has(tag) ||
+					this.instances.some((entry) => entry.tag === tag),
+				lifetime: options?.lifetime ?? 'singleton',
+				boundScope: options?.scope,
+			});
 		}
 
-		// Use Promise.all to resolve all dependencies concurrently
-		const promises = tags.map((tag) => this.resolve(tag));
-		const results = await Promise.all(promises);
-		return results as { [K in keyof T]: TagType<T[K]> };
+		return nodes;
 	}
 
 	/**
@@ -474,8 +2950,8 @@ export class Container<
 	 * // Container is automatically destroyed after callback completes
 	 * ```
 	 */
-	async use<T extends TTags, R>(
-		tag: T,
+	async use<T extends ResolvableTag<TTags>, R>(
+		tag: T & ValidWiring<T>,
 		fn: (service: TagType<T>) => PromiseOrValue<R>
 	): Promise<R> {
 		try {
@@ -490,39 +2966,133 @@ export class Container<
 	 * Destroys the container, calling all finalizers.
 	 *
 	 * After destruction, the container cannot be used.
-	 * Finalizers run concurrently, so there are no ordering guarantees.
-	 * Services should be designed to handle cleanup gracefully regardless of the order in which their
-	 * dependencies are cleaned up.
+	 * Finalizers run in reverse dependency order, based on the dependencies
+	 * each factory actually resolved: a service is finalized before the
+	 * services it depends on. Independent services are finalized concurrently.
+	 *
+	 * Destruction aborts `ctx.signal` of factories that are still running
+	 * and waits for them to settle: every instance they create is finalized.
+	 * No new instances can be created once destruction has started.
 	 *
+	 * Calling `destroy()` while destruction is in progress returns the same
+	 * promise, so finalizers run only once.
+	 *
+	 * @param options - Destruction options, e.g. an `AbortSignal`
 	 * @throws {DependencyFinalizationError} If any finalizers fail
 	 */
-	async destroy(): Promise<void> {
+	destroy(options?: DestroyOptions): Promise<void> {
 		if (this.isDestroyed) {
-			return; // Already destroyed, nothing to do
+			return Promise.resolve(); // Already destroyed, nothing to do
 		}
+		this.destruction ??= this.runDestroy(options);
+		return this.destruction;
+	}
 
+	/**
+	 * Runs the finalizers of this container. Called once per container.
+	 * @internal
+	 */
+	protected async runDestroy(options?: DestroyOptions): Promise<void> {
+		const start = performance.now();
+		const scope = this instanceof ScopedContainer ? this.scope : undefined;
+		const signal = options?.signal;
+		this.lifetime.abort(
+			new ContainerDestroyedError(
+				'The container was destroyed during resolution'
+			)
+		);
+		const finalize = intercepted(
+			async () => {
+				const failures = await this.runFinalizers(signal);
+				if (failures.length > 0) {
+					throw new DependencyFinalizationError(failures);
+				}
+			},
+			this.interceptors.flatMap(({ destroy }) =>
+				destroy
+					? [(next: () => Promise<void>) => destroy(next, { scope })]
+					: []
+			)
+		);
 		try {
-			const promises = Array.from(this.finalizers.entries())
-				.filter(([tag]) => this.cache.has(tag))
-				.map(async ([tag, finalizer]) => {
-					const dep = await this.cache.get(tag);
-					return finalizer(dep);
-				});
-
-			const results = await Promise.allSettled(promises);
-
-			const failures = results.filter((r) => r.status === 'rejected');
-			if (failures.length > 0) {
-				throw new DependencyFinalizationError(
-					failures.map((r) => r.reason as unknown)
-				);
-			}
+			await abortable(finalize(), signal);
 		} finally {
 			// Mark as destroyed and clear all state
 			this.isDestroyed = true;
 			this.cache.clear();
+			this.values.clear();
+			this.plans.clear();
+			this.instances.length = 0;
+			this.dependencies.clear();
+			this.created.clear();
+			this.timings.clear();
 			// Note: We keep factories/finalizers for potential debugging,
 			// but the container is no longer usable
+			this.emit('destroyed', {
+				scope,
+				duration: performance.now() - start,
+			});
+		}
+	}
+
+	/**
+	 * Destroys the container when an `await using` declaration goes out of scope.
+	 *
+	 * @example
+	 * ```typescript
+	 * {
+	 *   await using container = Container.from(appLayer);
+	 *   await container.resolve(App);
+	 * } // container.destroy() runs here
+	 * ```
+	 */
+	[Symbol.asyncDispose](): Promise<void> {
+		return this.destroy();
+	}
+
+	/**
+	 * Subscribes to a container event.
+	 *
+	 * Listeners are called synchronously; errors they throw are ignored so
+	 * that observers cannot break resolution or destruction.
+	 *
+	 * @param event - The event name
+	 * @param listener - Function called with the event payload
+	 * @returns A function that removes the listener
+	 *
+	 * @example
+	 * ```typescript
+	 * container.on('finalizationFailed', ({ id, scope, error }) => {
+	 *   logger.error(`Finalizer of ${id} failed`, { scope, error });
+	 * });
+	 * ```
+	 */
+	on<K extends keyof ContainerEvents>(
+		event: K,
+		listener: ContainerEventListener<K>
+	): () => void {
+		const listeners: Set<ContainerEventListener<K>> = this.listeners[event];
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Calls the listeners registered for an event.
+	 * @internal
+	 */
+	protected emit<K extends keyof ContainerEvents>(
+		event: K,
+		payload: ContainerEvents[K]
+	): void {
+		const listeners: Set<ContainerEventListener<K>> = this.listeners[event];
+		for (const listener of listeners) {
+			try {
+				listener(payload);
+			} catch {
+				// Listeners are observers and must not affect the container
+			}
 		}
 	}
 }
@@ -538,9 +3108,7 @@ export type Scope = string | symbol;
  * @template TTags - Union type of registered dependency tags
  */
 export class ScopedContainerBuilder<TTags extends AnyTag = never> {
-	private readonly factories = new Map<AnyTag, Factory<unknown, TTags>>();
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	private readonly finalizers = new Map<AnyTag, Finalizer<any>>();
+	private readonly registrations = new Registrations<TTags>();
 
 	constructor(
 		private readonly scope: Scope,
@@ -554,36 +3122,161 @@ export class ScopedContainerBuilder<TTags extends AnyTag = never> {
 		tag: T,
 		spec: DependencySpec<T, TTags>
 	): ScopedContainerBuilder<TTags | T> {
-		if (typeof spec === 'function') {
-			this.factories.set(tag, spec as Factory<unknown, TTags>);
-			// Remove any existing finalizer when registering with just a factory
-			this.finalizers.delete(tag);
-		} else {
-			// Bind the create method to preserve 'this' context for class instances
-			this.factories.set(
-				tag,
-				spec.create.bind(spec) as Factory<unknown, TTags>
-			);
-			if (spec.cleanup) {
-				// Bind the cleanup method to preserve 'this' context for class instances
-				this.finalizers.set(tag, spec.cleanup.bind(spec));
-			} else {
-				// Remove any existing finalizer when registering with just a factory
-				this.finalizers.delete(tag);
-			}
-		}
+		this.registrations.add(tag, spec);
+		return this as ScopedContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Contributes an element to a ManyTag.
+	 *
+	 * Each call adds one element; resolving the tag yields all contributed
+	 * elements in registration order. Calling `add()` with the same tag
+	 * replaces the whole collection, discarding earlier contributions.
+	 *
+	 * @param tag - The ManyTag to contribute to
+	 * @param spec - Factory function or lifecycle object for the element
+	 * @returns The builder with updated type information
+	 */
+	contribute<T extends AnyManyTag>(
+		tag: T,
+		spec: ContributionSpec<ManyTagElement<T>, TTags>
+	): ScopedContainerBuilder<TTags | T> {
+		this.registrations.contribute(
+			tag,
+			spec as ContributionSpec<unknown, TTags>
+		);
+		return this as ScopedContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Contributes a keyed entry to a MapTag.
+	 *
+	 * Resolving the tag yields a `Map` of all contributed entries in registration
+	 * order. Calling `add()` with the same tag replaces the whole map.
+	 *
+	 * @param tag - The MapTag to contribute to
+	 * @param key - The entry key, unique within the tag
+	 * @param spec - Factory function or lifecycle object for the entry value
+	 * @param source - Name of the contributor, e.g. the registering module,
+	 *   used to find both contributors when a key is contributed twice
+	 * @returns The builder with updated type information
+	 * @throws DuplicateEntryKeyError if the key was already contributed
+	 */
+	contributeEntry<T extends AnyMapTag>(
+		tag: T,
+		key: string,
+		spec: ContributionSpec<MapTagEntry<T>, TTags>,
+		source: string
+	): ScopedContainerBuilder<TTags | T> {
+		this.registrations.contributeEntry(
+			tag,
+			key,
+			spec as ContributionSpec<unknown, TTags>,
+			source
+		);
+		return this as ScopedContainerBuilder<TTags | T>;
+	}
+
+	/**
+	 * Registers a tag as an alias of another tag.
+	 *
+	 * Resolving the alias resolves the target, so both share the same cached
+	 * instance and the target's finalizer runs only once. The target's
+	 * instance type must be assignable to the alias.
+	 *
+	 * @param tag - The alias tag
+	 * @param target - The tag to resolve instead
+	 * @returns The builder with updated type information
+	 */
+	alias<T extends AnyTag, TTarget extends AnyTag>(
+		tag: T,
+		target: TTarget &
+			(TagType<TTarget> extends TagType<T> ? unknown : never)
+	): ScopedContainerBuilder<TTags | T> {
+		this.registrations.alias(tag, target);
 		return this as ScopedContainerBuilder<TTags | T>;
 	}
 
+	/**
+	 * Wraps the instance created for a tag without replacing its factory.
+	 *
+	 * Decorators are applied when the container is built, on top of whichever
+	 * factory is registered for the tag at that point, and run in registration
+	 * order. The tag's finalizer still receives the undecorated instance.
+	 *
+	 * @param tag - The registered tag to decorate
+	 * @param decorator - Function returning the instance to expose
+	 * @returns The builder
+	 */
+	decorate<T extends AnyTag>(
+		tag: T,
+		decorator: Decorator<TagType<T>, TTags>
+	): this {
+		this.registrations.decorate(
+			tag,
+			decorator as Decorator<unknown, TTags>
+		);
+		return this;
+	}
+
+	/**
+	 * Registers an interceptor wrapping every factory invocation, or
+	 * interceptors for several lifecycle stages at once.
+	 *
+	 * Interceptors registered first run outermost. Child scopes inherit
+	 * the interceptors of their parent, which run before their own.
+	 *
+	 * @param interceptor - Function wrapping factory invocations, or an
+	 *   object with `create`, `finalize` and `destroy` interceptors
+	 * @returns The builder
+	 */
+	intercept(interceptor: Interceptor | LifecycleInterceptors): this {
+		this.registrations.intercept(interceptor);
+		return this;
+	}
+
+	/**
+	 * Sets defaults for the options of every registration, such as
+	 * timeouts. Options of individual registrations take precedence.
+	 *
+	 * Child scopes inherit the defaults of their parent.
+	 *
+	 * @param defaults - Options applied to registrations that do not set them
+	 * @returns The builder
+	 */
+	defaults(defaults: ContainerDefaults): this {
+		this.registrations.defaults = {
+			...this.registrations.defaults,
+			...defaults,
+		};
+		return this;
+	}
+
+	/**
+	 * @internal - Used to validate layer requirements before building
+	 */
+	_registers(tag: AnyTag): boolean {
+		return this.registrations.registers(tag);
+	}
+
 	/**
 	 * Creates an immutable scoped container from the registered dependencies.
+	 *
+	 * @throws {UnknownDependencyError} If a decorated tag has no registered factory
 	 */
 	build(): ScopedContainer<TTags> {
+		const { factories, finalizers, options, aliases, interceptors } =
+			this.registrations;
 		const child = ScopedContainer._createScopedFromBuilder(
 			this.scope,
 			this.parent,
-			this.factories,
-			this.finalizers
+			factories,
+			finalizers,
+			options,
+			aliases,
+			this.registrations.getDecorators(),
+			interceptors,
+			this.registrations.defaults
 		);
 		// Register child with parent for proper destruction order
 		if (this.parent instanceof ScopedContainer) {
@@ -635,9 +3328,32 @@ export class ScopedContainer<
 		parent: IContainer<TTags> | null,
 		factories: Map<AnyTag, Factory<unknown, TTags>>,
 		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		finalizers: Map<AnyTag, Finalizer<any>>
+		finalizers: Map<AnyTag, Finalizer<any>>,
+		options: Map<AnyTag, DependencyOptions>,
+		aliases: Map<AnyTag, AnyTag>,
+		decorators: Map<AnyTag, readonly Decorator<unknown, TTags>[]>,
+		interceptors: readonly LifecycleInterceptors[],
+		defaults: ContainerDefaults
 	) {
-		super(factories, finalizers);
+		// Children run their parent's interceptors before their own and
+		// inherit its defaults
+		super(
+			factories,
+			finalizers,
+			options,
+			aliases,
+			decorators,
+			[
+				...(parent instanceof ScopedContainer
+					? parent.interceptors
+					: []),
+				...interceptors,
+			],
+			{
+				...(parent instanceof ScopedContainer ? parent.defaults : {}),
+				...defaults,
+			}
+		);
 		this.scope = scope;
 		this.parent = parent;
 	}
@@ -650,9 +3366,24 @@ export class ScopedContainer<
 		parent: IContainer<T> | null,
 		factories: Map<AnyTag, Factory<unknown, T>>,
 		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		finalizers: Map<AnyTag, Finalizer<any>>
+		finalizers: Map<AnyTag, Finalizer<any>>,
+		options: Map<AnyTag, DependencyOptions>,
+		aliases: Map<AnyTag, AnyTag>,
+		decorators: Map<AnyTag, readonly Decorator<unknown, T>[]>,
+		interceptors: readonly LifecycleInterceptors[],
+		defaults: ContainerDefaults
 	): ScopedContainer<T> {
-		return new ScopedContainer(scope, parent, factories, finalizers);
+		return new ScopedContainer(
+			scope,
+			parent,
+			factories,
+			finalizers,
+			options,
+			aliases,
+			decorators,
+			interceptors,
+			defaults
+		);
 	}
 
 	/**
@@ -686,6 +3417,7 @@ export class ScopedContainer<
 	 *
 	 * @param scope - Identifier for the scope (for debugging)
 	 * @param layer - A layer with no requirements (all dependencies satisfied)
+	 * @throws {MissingDependenciesError} If the layer has unsatisfied requirements at runtime
 	 *
 	 * @example
 	 * ```typescript
@@ -699,46 +3431,290 @@ export class ScopedContainer<
 		scope: Scope,
 		layer: Layer<never, TProvides>
 	): ScopedContainer<TProvides> {
-		const builder = ScopedContainer.builder(scope);
-		const resultBuilder = layer.apply(builder);
-		return resultBuilder.build();
+		const builder = layer.apply(ScopedContainer.builder(scope));
+		const missing = layer.requires.filter(
+			(tag) => !builder._registers(tag)
+		);
+		if (missing.length > 0) {
+			throw new MissingDependenciesError(missing);
+		}
+		return builder.build();
 	}
 
 	/**
 	 * Resolves a dependency from this scope or parent scopes, creating it if necessary.
 	 *
-	 * Dependencies are singletons - the same instance is returned on subsequent calls.
+	 * Singleton dependencies return the same instance on subsequent calls.
+	 * Transient dependencies are created anew on every call.
+	 * Scope-bound dependencies are created in the nearest scope with a matching name.
 	 *
 	 * @param tag - The dependency tag to resolve
 	 * @returns Promise resolving to the dependency instance
 	 * @throws {ContainerDestroyedError} If the container has been destroyed
 	 * @throws {UnknownDependencyError} If any dependency is not registered
+	 * @throws {ScopeNotFoundError} If a scope-bound dependency has no matching scope
 	 * @throws {CircularDependencyError} If a circular dependency is detected
 	 * @throws {DependencyCreationError} If any factory function throws an error
 	 */
-	override async resolve<T extends TTags>(tag: T): Promise<TagType<T>> {
-		return this.resolveInternal(tag, []);
+	override async resolve<T extends ResolvableTag<TTags>>(
+		tag: T & ValidWiring<T>,
+		options?: ResolveOptions
+	): Promise<TagType<T>> {
+		const signal = options?.signal;
+		signal?.throwIfAborted();
+		return abortable(this.resolveInternal(tag, undefined, signal), signal);
 	}
 
 	/**
 	 * Internal resolution with parent delegation.
 	 * @internal
 	 */
-	protected override resolveInternal<T extends TTags>(
+	protected override resolveInternal<T extends ResolvableTag<TTags>>(
 		tag: T,
-		chain: AnyTag[]
+		chain: ResolutionChain | undefined,
+		signal?: AbortSignal
 	): Promise<TagType<T>> {
-		// If this scope has a factory, resolve here
-		if (this.factories.has(tag)) {
-			return super.resolveInternal(tag, chain);
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		// Instances of scope-bound dependencies are cached here even though
+		// the registration may belong to an ancestor
+		const cached = this.cache.get(tag) as Promise<TagType<T>> | undefined;
+		if (cached !== undefined) {
+			this.creations.get(tag)?.join(signal);
+			return cached;
+		}
+
+		return super.resolveInternal(tag, chain, signal);
+	}
+
+	/**
+	 * Compiles the plan for the nearest scope (this one or an ancestor) with a
+	 * factory or alias.
+	 * @internal
+	 */
+	protected override compile(tag: AnyTag): ResolutionPlan<TTags> {
+		// Request scopes are short-lived, so reuse the plans of the parent
+		// scope for the tags they resolve the same way
+		const parent = this.parent;
+		if (parent instanceof ScopedContainer && this.inheritsPlan(tag)) {
+			return (parent as ScopedContainer<TTags>).plan(tag);
+		}
+
+		let owner: ScopedContainer<TTags> | undefined;
+		let registration: Registration<TTags> | undefined;
+		for (const container of this.ancestry()) {
+			// Aliases resolve their target from here, so it can live in any scope
+			const target = container.aliases.get(tag);
+			if (target !== undefined) {
+				return { alias: target, owner: container };
+			}
+			registration = container.getRegistration(tag);
+			if (registration !== undefined) {
+				owner = container;
+				break;
+			}
+		}
+
+		if (owner === undefined || registration === undefined) {
+			// Delegate to a parent that is not a scoped container
+			const root = this.ancestry().at(-1)!;
+			if (root.parent !== null) {
+				return { parent: root.parent };
+			}
+			// Fallbacks are shared by the whole hierarchy, so they live in the
+			// outermost scope that can resolve their dependencies
+			const fallback = getFallbackRegistration<TTags>(tag);
+			if (fallback !== undefined) {
+				const target = this.fallbackScope(tag);
+				return { recipe: target.recipe(fallback), container: target };
+			}
+			throw new UnknownDependencyError(tag);
+		}
+
+		// Unbound dependencies live in the scope that registered them,
+		// scope-bound ones in the nearest scope with a matching name
+		const scope = registration.options?.scope;
+		const target =
+			scope === undefined
+				? owner
+				: this.ancestry().find(
+						(container) => container.scope === scope
+					);
+
+		if (target === undefined) {
+			throw new ScopeNotFoundError(tag, scope!);
+		}
+
+		return { recipe: target.recipe(registration), container: target };
+	}
+
+	/**
+	 * Whether this scope resolves a tag like its parent scope: it registers
+	 * nothing for the tag, and the registration an ancestor holds is not
+	 * bound to a scope with this scope's name.
+	 * @internal
+	 */
+	private inheritsPlan(tag: AnyTag): boolean {
+		if (this.aliases.has(tag) || this.factories.has(tag)) {
+			return false;
+		}
+		let current = this.parent;
+		while (current instanceof ScopedContainer) {
+			const container = current as ScopedContainer<TTags>;
+			if (container.aliases.has(tag)) {
+				return true;
+			}
+			if (container.factories.has(tag)) {
+				return container.options.get(tag)?.scope !== this.scope;
+			}
+			current = container.parent;
+		}
+		// Self-wired services may depend on tags only this scope registers
+		return (
+			!Tag.hasWiring(tag) ||
+			(this.parent as ScopedContainer<TTags>).canResolve(tag)
+		);
+	}
+
+	/**
+	 * Returns the outermost scope of the hierarchy that can resolve the
+	 * dependencies of a tag's fallback registration.
+	 * @internal
+	 */
+	private fallbackScope(tag: AnyTag): ScopedContainer<TTags> {
+		const ancestry = this.ancestry();
+		if (Tag.hasWiring(tag)) {
+			for (let i = ancestry.length - 1; i > 0; i--) {
+				if (ancestry[i]!.canResolve(tag)) {
+					return ancestry[i]!;
+				}
+			}
+			return this;
+		}
+		return ancestry.at(-1)!;
+	}
+
+	/**
+	 * Returns whether this scope can resolve a tag: it or an ancestor
+	 * registers it, or it falls back to a default or to self-wired
+	 * dependencies this scope can resolve.
+	 * @internal
+	 */
+	private canResolve(tag: AnyTag, visited = new Set<AnyTag>()): boolean {
+		if (this.registers(tag) || Tag.hasDefault(tag) || visited.has(tag)) {
+			return true;
+		}
+		if (!Tag.hasWiring(tag)) {
+			return false;
+		}
+		visited.add(tag);
+		return tag.deps.every(
+			(dep) => !Tag.isTag(dep) || this.canResolve(dep, visited)
+		);
+	}
+
+	/**
+	 * Internal optional resolution with parent delegation.
+	 * @internal
+	 */
+	protected override resolveOptionalInternal(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined,
+		signal?: AbortSignal
+	): Promise<unknown> {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		const ancestry = this.ancestry();
+		if (
+			getFallbackRegistration(tag) !== undefined ||
+			ancestry.some(
+				(container) =>
+					container.factories.has(tag) || container.aliases.has(tag)
+			)
+		) {
+			return this.resolveInternal(tag as TTags, chain, signal);
+		}
+
+		// Delegate to a parent that is not a scoped container
+		const root = ancestry.at(-1)!;
+		if (root.parent !== null) {
+			return root.parent.resolveOptional(tag, { signal });
+		}
+		return Promise.resolve(undefined);
+	}
+
+	/**
+	 * Internal synchronous optional resolution with parent delegation.
+	 * @internal
+	 */
+	protected override resolveOptionalSyncInternal(
+		tag: AnyTag,
+		chain: ResolutionChain | undefined
+	): unknown {
+		if (this.isDestroyed) {
+			throw new ContainerDestroyedError(
+				'Cannot resolve dependencies from a destroyed container'
+			);
+		}
+
+		const ancestry = this.ancestry();
+		if (
+			getFallbackRegistration(tag) !== undefined ||
+			ancestry.some(
+				(container) =>
+					container.factories.has(tag) || container.aliases.has(tag)
+			)
+		) {
+			return this.resolveSyncInternal(tag, chain);
+		}
+
+		// Delegate to a parent that is not a scoped container
+		const root = ancestry.at(-1)!;
+		if (root.parent !== null) {
+			return root.parent.resolveOptionalSync(tag);
 		}
+		return undefined;
+	}
 
-		// Delegate to parent
-		if (this.parent !== null) {
-			return this.parent.resolve(tag);
+	/**
+	 * Returns whether this scope, an ancestor or a non-scoped root parent
+	 * has a factory or alias for a tag.
+	 * @internal
+	 */
+	protected override registers(tag: AnyTag): boolean {
+		const ancestry = this.ancestry();
+		if (
+			ancestry.some(
+				(container) =>
+					container.factories.has(tag) || container.aliases.has(tag)
+			)
+		) {
+			return true;
 		}
+		const root = ancestry.at(-1)!;
+		return root.parent !== null && Container.registersIn(root.parent, tag);
+	}
 
-		throw new UnknownDependencyError(tag);
+	/**
+	 * Returns this container followed by its scoped ancestors, nearest first.
+	 * @internal
+	 */
+	private ancestry(): ScopedContainer<TTags>[] {
+		const result: ScopedContainer<TTags>[] = [this];
+		let current = this.parent;
+		while (current instanceof ScopedContainer) {
+			result.push(current as ScopedContainer<TTags>);
+			current = (current as ScopedContainer<TTags>).parent;
+		}
+		return result;
 	}
 
 	/**
@@ -746,6 +3722,7 @@ export class ScopedContainer<
 	 */
 	_registerChild(child: ScopedContainer<TTags>): void {
 		this.children.push(new WeakRef(child));
+		this.emit('childCreated', { scope: child.scope, child });
 	}
 
 	/**
@@ -785,6 +3762,7 @@ export class ScopedContainer<
 	 *
 	 * @param scope - Identifier for the child scope
 	 * @param layer - Layer to apply to the child (can require parent's tags)
+	 * @throws {MissingDependenciesError} If neither the layer, this container nor its ancestors provide the layer's requirements
 	 *
 	 * @example
 	 * ```typescript
@@ -801,26 +3779,64 @@ export class ScopedContainer<
 		scope: Scope,
 		layer: Layer<TTags, TProvides>
 	): ScopedContainer<TTags | TProvides> {
-		return layer.apply(this.child(scope)).build();
+		const builder = layer.apply(this.child(scope));
+		const missing = layer.requires.filter(
+			(tag) => !builder._registers(tag) && !this.registers(tag)
+		);
+		if (missing.length > 0) {
+			throw new MissingDependenciesError(missing);
+		}
+		return builder.build();
+	}
+
+	/**
+	 * Calls this container's listeners, then forwards the event to the parent.
+	 * @internal
+	 */
+	protected override emit<K extends keyof ContainerEvents>(
+		event: K,
+		payload: ContainerEvents[K]
+	): void {
+		super.emit(event, payload);
+		if (this.parent instanceof ScopedContainer) {
+			this.parent.emit(event, payload);
+		}
+	}
+
+	/**
+	 * Returns a snapshot of the dependency graph visible from this container.
+	 *
+	 * Includes the nodes of this scope and all of its ancestors, each marked
+	 * with the scope it belongs to. Edges from this scope may point to nodes
+	 * in ancestor scopes.
+	 */
+	override graph(): DependencyGraph {
+		return this.collectGraph(this.ancestry());
 	}
 
 	/**
 	 * Destroys this container and all child containers.
 	 *
 	 * Children are destroyed first to ensure proper cleanup order.
+	 * Within each scope, finalizers run in reverse dependency order.
 	 *
-	 * After destruction, the container cannot be used.
-	 * Finalizers run concurrently, so there are no ordering guarantees.
-	 * Services should be designed to handle cleanup gracefully regardless of the order in which their
-	 * dependencies are cleaned up.
+	 * After destruction, the container cannot be used. Calling `destroy()`
+	 * while destruction is in progress returns the same promise.
 	 *
+	 * @param options - Destruction options, e.g. an `AbortSignal`
 	 * @throws {DependencyFinalizationError} If any finalizers fail
 	 */
-	override async destroy(): Promise<void> {
-		if (this.isDestroyed) {
-			return; // Already destroyed, nothing to do
-		}
+	override destroy(options?: DestroyOptions): Promise<void> {
+		return super.destroy(options);
+	}
 
+	/**
+	 * Destroys the child containers, then runs the finalizers of this one.
+	 * @internal
+	 */
+	protected override async runDestroy(
+		options?: DestroyOptions
+	): Promise<void> {
 		const allFailures: unknown[] = [];
 
 		// Destroy children first (they may depend on our dependencies)
@@ -829,7 +3845,7 @@ export class ScopedContainer<
 			.filter(
 				(child): child is ScopedContainer<TTags> => child !== undefined
 			)
-			.map((child) => child.destroy());
+			.map((child) => child.destroy(options));
 
 		const childResults = await Promise.allSettled(childDestroyPromises);
 
@@ -840,13 +3856,14 @@ export class ScopedContainer<
 		allFailures.push(...childFailures);
 
 		try {
-			await super.destroy();
+			await super.runDestroy(options);
 		} catch (error) {
 			allFailures.push(error);
 		} finally {
 			this.parent = null;
 		}
 
+		options?.signal?.throwIfAborted();
 		if (allFailures.length > 0) {
 			throw new DependencyFinalizationError(allFailures);
 		}
@@ -1,10 +1,16 @@
 import { describe, expect, it } from 'vitest';
 import {
+	AsyncFactoryError,
 	CircularDependencyError,
 	ContainerDestroyedError,
 	DependencyCreationError,
 	DependencyFinalizationError,
+	DependencyInitializationError,
+	DependencyTimeoutError,
+	DuplicateEntryKeyError,
+	MissingDependenciesError,
 	SandlyError,
+	ScopeNotFoundError,
 	UnknownDependencyError,
 } from './errors.js';
 import { Tag } from './tag.js';
@@ -200,6 +206,23 @@ describe('Error Classes', () => {
 			expect(error.detail).toEqual({ tag: 'UserService' });
 		});
 
+		it('should record failed attempts', () => {
+			class UserService {}
+			const attempts = [new Error('first'), new Error('second')];
+
+			const error = new DependencyCreationError(
+				UserService,
+				attempts[1],
+				attempts
+			);
+
+			expect(error.message).toBe(
+				'Error creating instance of "UserService" after 2 attempts'
+			);
+			expect(error.getAttemptErrors()).toEqual(attempts);
+			expect(error.detail?.attempts).toHaveLength(2);
+		});
+
 		describe('getRootCause()', () => {
 			it('should return direct cause for non-nested errors', () => {
 				class ServiceA {}
@@ -278,6 +301,155 @@ describe('Error Classes', () => {
 		});
 	});
 
+	describe('MissingDependenciesError', () => {
+		it('should list a single missing tag', () => {
+			class Database {}
+
+			const error = new MissingDependenciesError([Database]);
+
+			expect(error.message).toBe('Missing dependency: "Database"');
+			expect(error.detail).toEqual({ missing: ['Database'] });
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+
+		it('should list every missing tag', () => {
+			class Database {}
+			const ConfigTag = Tag.of('config')<string>();
+
+			const error = new MissingDependenciesError([Database, ConfigTag]);
+
+			expect(error.message).toBe(
+				'Missing dependencies: "Database", "config"'
+			);
+			expect(error.detail).toEqual({ missing: ['Database', 'config'] });
+		});
+	});
+
+	describe('ScopeNotFoundError', () => {
+		it('should include tag and scope in message and detail', () => {
+			class Session {}
+
+			const error = new ScopeNotFoundError(Session, 'request');
+
+			expect(error.message).toBe(
+				'Dependency "Session" is bound to scope "request", which is not active in the resolving container'
+			);
+			expect(error.detail).toEqual({
+				tag: 'Session',
+				scope: 'request',
+			});
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+
+		it('should stringify symbol scopes', () => {
+			class Session {}
+
+			const error = new ScopeNotFoundError(Session, Symbol('request'));
+
+			expect(error.detail?.scope).toBe('Symbol(request)');
+		});
+	});
+
+	describe('DependencyInitializationError', () => {
+		it('should aggregate all initialization errors', () => {
+			const error1 = new Error('Error 1');
+			const error2 = new Error('Error 2');
+
+			const error = new DependencyInitializationError([error1, error2]);
+
+			expect(error.message).toBe('Error initializing container');
+			expect(error.cause).toBe(error1);
+			expect(error.getRootCauses()).toEqual([error1, error2]);
+			expect(error.detail?.errors).toHaveLength(2);
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+	});
+
+	describe('DependencyTimeoutError', () => {
+		it('should name the operation, timeout and chain', () => {
+			class Database {}
+			class UserService {}
+
+			const error = new DependencyTimeoutError(Database, 'create', 5000, [
+				UserService,
+			]);
+
+			expect(error.message).toBe(
+				'Creating "Database" timed out after 5000ms (UserService -> Database)'
+			);
+			expect(error.detail).toEqual({
+				tag: 'Database',
+				operation: 'create',
+				timeout: 5000,
+				dependencyChain: ['UserService'],
+			});
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+
+		it('should omit an empty chain', () => {
+			class Database {}
+
+			const error = new DependencyTimeoutError(Database, 'cleanup', 100);
+
+			expect(error.message).toBe(
+				'Finalizing "Database" timed out after 100ms'
+			);
+		});
+	});
+
+	describe('DuplicateEntryKeyError', () => {
+		it('should name the key and both contributors', () => {
+			const JobsTag = Tag.map('jobs')<() => void>();
+
+			const error = new DuplicateEntryKeyError(JobsTag, 'email', [
+				'EmailJob',
+				'LegacyEmailJob',
+			]);
+
+			expect(error.message).toBe(
+				'Duplicate key "email" for "jobs": contributed by "EmailJob" and "LegacyEmailJob"'
+			);
+			expect(error.detail).toEqual({
+				tag: 'jobs',
+				key: 'email',
+				sources: ['EmailJob', 'LegacyEmailJob'],
+			});
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+	});
+
+	describe('AsyncFactoryError', () => {
+		it('should explain why the dependency is not synchronous', () => {
+			class Database {}
+			class UserService {}
+
+			const error = new AsyncFactoryError(Database, 'async', [
+				UserService,
+			]);
+
+			expect(error.message).toBe(
+				'Cannot resolve "Database" synchronously: its factory returned a promise (UserService -> Database)'
+			);
+			expect(error.detail).toEqual({
+				tag: 'Database',
+				reason: 'async',
+				dependencyChain: ['UserService'],
+			});
+			expect(error).toBeInstanceOf(SandlyError);
+		});
+
+		it('should omit an empty chain', () => {
+			class Database {}
+
+			expect(new AsyncFactoryError(Database, 'pending').message).toBe(
+				'Cannot resolve "Database" synchronously: it is being created asynchronously'
+			);
+			expect(new AsyncFactoryError(Database, 'intercepted').message).toBe(
+				'Cannot resolve "Database" synchronously: creation interceptors are registered'
+			);
+		});
+	});
+
 	describe('ContainerDestroyedError', () => {
 		it('should create with message', () => {
 			const error = new ContainerDestroyedError(
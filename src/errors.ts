@@ -131,6 +131,116 @@ export class UnknownDependencyError extends SandlyError {
 	}
 }
 
+/**
+ * Error thrown when a layer is used to build a container while some of its
+ * requirements are not satisfied.
+ *
+ * Raised eagerly, before any factory runs, and lists every missing tag at once.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Container.from(appLayer as Layer<never, typeof UserService>);
+ * } catch (error) {
+ *   if (error instanceof MissingDependenciesError) {
+ *     console.error('Missing:', error.detail?.missing);
+ *   }
+ * }
+ * ```
+ */
+export class MissingDependenciesError extends SandlyError {
+	constructor(missing: readonly AnyTag[]) {
+		const ids = missing.map((tag) => Tag.id(tag));
+		super(
+			`Missing ${ids.length === 1 ? 'dependency' : 'dependencies'}: ${ids.map((id) => `"${id}"`).join(', ')}`,
+			{
+				detail: {
+					missing: ids,
+				},
+			}
+		);
+	}
+}
+
+/**
+ * Error thrown when resolving a scope-bound dependency from a container
+ * that has no matching scope among itself and its ancestors.
+ *
+ * @example
+ * ```typescript
+ * const app = ScopedContainer.from(
+ *   'app',
+ *   Layer.service(Session, [], { scope: 'request' })
+ * );
+ *
+ * try {
+ *   await app.resolve(Session); // No 'request' scope here
+ * } catch (error) {
+ *   if (error instanceof ScopeNotFoundError) {
+ *     console.error('Wrong scope:', error.message);
+ *   }
+ * }
+ * ```
+ */
+export class ScopeNotFoundError extends SandlyError {
+	constructor(tag: AnyTag, scope: string | symbol) {
+		super(
+			`Dependency "${Tag.id(tag)}" is bound to scope "${String(scope)}", which is not active in the resolving container`,
+			{
+				detail: {
+					tag: Tag.id(tag),
+					scope: String(scope),
+				},
+			}
+		);
+	}
+}
+
+/**
+ * Error thrown when two registrations contribute the same key to a MapTag.
+ *
+ * Both contributors are named so the conflicting registrations can be found.
+ * Contributions registered through `Layer.contributeEntry()` are named after
+ * the contributed tag unless they pass a source label.
+ *
+ * @example
+ * ```typescript
+ * const JobsTag = Tag.map('jobs')<Job>();
+ *
+ * try {
+ *   Container.from(
+ *     Layer.mergeAll(
+ *       Layer.contributeEntry(JobsTag, 'email', EmailJob),
+ *       Layer.contributeEntry(JobsTag, 'email', LegacyEmailJob)
+ *     )
+ *   );
+ * } catch (error) {
+ *   if (error instanceof DuplicateEntryKeyError) {
+ *     console.error(error.message);
+ *     // Duplicate key "email" for "jobs": contributed by "EmailJob" and "LegacyEmailJob"
+ *   }
+ * }
+ * ```
+ */
+export class DuplicateEntryKeyError extends SandlyError {
+	constructor(
+		tag: AnyTag,
+		key: string,
+		sources: readonly [existing: string, duplicate: string]
+	) {
+		super(
+			`Duplicate key "${key}" for "${Tag.id(tag)}": contributed by "${sources[0]}" and "${sources[1]}"`,
+			{
+				detail: {
+					tag: Tag.id(tag),
+					key,
+					sources: [...sources],
+				},
+			}
+		);
+	}
+}
+
 /**
  * Error thrown when a circular dependency is detected during resolution.
  *
@@ -168,6 +278,10 @@ export class CircularDependencyError extends SandlyError {
  * For nested dependencies (A depends on B depends on C), use `getRootCause()`
  * to unwrap all layers and get the original error.
  *
+ * When the registration has a retry policy, every failed attempt is listed
+ * in `detail.attempts` and returned by `getAttemptErrors()`; the cause is
+ * the error of the last attempt.
+ *
  * @example
  * ```typescript
  * try {
@@ -182,13 +296,32 @@ export class CircularDependencyError extends SandlyError {
  * ```
  */
 export class DependencyCreationError extends SandlyError {
-	constructor(tag: AnyTag, error: unknown) {
-		super(`Error creating instance of "${Tag.id(tag)}"`, {
-			cause: error,
-			detail: {
-				tag: Tag.id(tag),
-			},
-		});
+	constructor(
+		tag: AnyTag,
+		error: unknown,
+		private readonly attempts: unknown[] = []
+	) {
+		const detail: Record<string, unknown> = { tag: Tag.id(tag) };
+		if (attempts.length > 0) {
+			detail.attempts = attempts.map((attempt) =>
+				SandlyError.ensure(attempt).dump()
+			);
+		}
+		super(
+			attempts.length > 1
+				? `Error creating instance of "${Tag.id(tag)}" after ${String(attempts.length)} attempts`
+				: `Error creating instance of "${Tag.id(tag)}"`,
+			{ cause: error, detail }
+		);
+	}
+
+	/**
+	 * Returns the errors of all failed attempts, in order.
+	 *
+	 * Empty unless the registration has a retry policy.
+	 */
+	getAttemptErrors(): unknown[] {
+		return this.attempts;
 	}
 
 	/**
@@ -211,6 +344,148 @@ export class DependencyCreationError extends SandlyError {
 	}
 }
 
+/**
+ * Error thrown when a factory or finalizer exceeds its timeout.
+ *
+ * Set timeouts per registration with the `createTimeout` and `cleanupTimeout`
+ * options, or for a whole container with `builder.defaults()`.
+ *
+ * A registration with a retry policy also rejects with this error when its
+ * last attempt times out. Every failed attempt is then listed in
+ * `detail.attempts` and returned by `getAttemptErrors()`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await container.resolve(UserService);
+ * } catch (error) {
+ *   if (error instanceof DependencyCreationError) {
+ *     const rootCause = error.getRootCause();
+ *     if (rootCause instanceof DependencyTimeoutError) {
+ *       console.error(rootCause.message);
+ *       // Creating "Database" timed out after 5000ms (UserService -> Database)
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class DependencyTimeoutError extends SandlyError {
+	constructor(
+		tag: AnyTag,
+		operation: 'create' | 'cleanup',
+		timeout: number,
+		dependencyChain: readonly AnyTag[] = [],
+		private readonly attempts: unknown[] = []
+	) {
+		const action = operation === 'create' ? 'Creating' : 'Finalizing';
+		const path = [...dependencyChain, tag].map((t) => Tag.id(t));
+		const detail: Record<string, unknown> = {
+			tag: Tag.id(tag),
+			operation,
+			timeout,
+			dependencyChain: dependencyChain.map((t) => Tag.id(t)),
+		};
+		if (attempts.length > 0) {
+			detail.attempts = attempts.map((attempt) =>
+				SandlyError.ensure(attempt).dump()
+			);
+		}
+		super(
+			`${action} "${Tag.id(tag)}" timed out after ${timeout}ms${attempts.length > 1 ? ` on attempt ${String(attempts.length)}` : ''}${dependencyChain.length > 0 ? ` (${path.join(' -> ')})` : ''}`,
+			{ detail }
+		);
+	}
+
+	/**
+	 * Returns the errors of all failed attempts, in order.
+	 *
+	 * Empty unless the registration has a retry policy.
+	 */
+	getAttemptErrors(): unknown[] {
+		return this.attempts;
+	}
+}
+
+/**
+ * Error thrown when `resolveSync()` cannot create a dependency synchronously.
+ *
+ * Names the dependency that blocks synchronous resolution: its factory
+ * returned a promise, it is still being created by an async `resolve()`,
+ * or creation interceptors are registered.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   container.resolveSync(UserService);
+ * } catch (error) {
+ *   if (error instanceof AsyncFactoryError) {
+ *     console.error(error.message);
+ *     // Cannot resolve "Database" synchronously: its factory returned a promise (UserService -> Database)
+ *   }
+ * }
+ * ```
+ */
+export class AsyncFactoryError extends SandlyError {
+	constructor(
+		tag: AnyTag,
+		reason: 'async' | 'pending' | 'intercepted',
+		dependencyChain: readonly AnyTag[] = []
+	) {
+		const explanation = {
+			async: 'its factory returned a promise',
+			pending: 'it is being created asynchronously',
+			intercepted: 'creation interceptors are registered',
+		}[reason];
+		const path = [...dependencyChain, tag].map((t) => Tag.id(t));
+		super(
+			`Cannot resolve "${Tag.id(tag)}" synchronously: ${explanation}${dependencyChain.length > 0 ? ` (${path.join(' -> ')})` : ''}`,
+			{
+				detail: {
+					tag: Tag.id(tag),
+					reason,
+					dependencyChain: dependencyChain.map((t) => Tag.id(t)),
+				},
+			}
+		);
+	}
+}
+
+/**
+ * Error thrown when one or more dependencies fail during `container.init()`.
+ *
+ * Initialization continues for all other dependencies.
+ * This error aggregates all failures.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await container.init();
+ * } catch (error) {
+ *   if (error instanceof DependencyInitializationError) {
+ *     console.error('Startup failures:', error.getRootCauses());
+ *   }
+ * }
+ * ```
+ */
+export class DependencyInitializationError extends SandlyError {
+	constructor(private readonly errors: unknown[]) {
+		const sandlyErrors = errors.map((error) => SandlyError.ensure(error));
+		super('Error initializing container', {
+			cause: errors[0],
+			detail: {
+				errors: sandlyErrors.map((error) => error.dump()),
+			},
+		});
+	}
+
+	/**
+	 * Returns all errors that caused initialization to fail.
+	 */
+	getRootCauses(): unknown[] {
+		return this.errors;
+	}
+}
+
 /**
  * Error thrown when one or more finalizers fail during container destruction.
  *
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { Container, ScopedContainer } from './container.js';
+import { Graph } from './graph.js';
+import { Tag } from './tag.js';
+
+describe('Graph', () => {
+	class Database {}
+	class Cache {}
+	class UserService {}
+
+	const createContainer = () =>
+		Container.builder()
+			.add(Database, () => new Database())
+			.add(Cache, () => new Cache())
+			.add(UserService, async (ctx) => {
+				await ctx.resolve(Database);
+				return new UserService();
+			})
+			.build();
+
+	describe('Graph.toDot()', () => {
+		it('should render nodes, instantiation state and edges', async () => {
+			const container = createContainer();
+			await container.resolve(UserService);
+
+			expect(Graph.toDot(container.graph())).toBe(
+				[
+					'digraph dependencies {',
+					'\trankdir=LR;',
+					'\tnode [shape=box];',
+					'\tn0 [label="Database", style=filled];',
+					'\tn1 [label="Cache", style=dashed];',
+					'\tn2 [label="UserService", style=filled];',
+					'\tn2 -> n0;',
+					'}',
+				].join('\n')
+			);
+		});
+
+		it('should render scopes as clusters', async () => {
+			class Session {}
+
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.build();
+			const request = app
+				.child('request')
+				.add(Session, async (ctx) => {
+					await ctx.resolve(Database);
+					return new Session();
+				})
+				.build();
+			await request.resolve(Session);
+
+			expect(Graph.toDot(request.graph())).toBe(
+				[
+					'digraph dependencies {',
+					'\trankdir=LR;',
+					'\tnode [shape=box];',
+					'\tsubgraph cluster_0 {',
+					'\t\tlabel="app";',
+					'\t\tn0 [label="Database", style=filled];',
+					'\t}',
+					'\tsubgraph cluster_1 {',
+					'\t\tlabel="request";',
+					'\t\tn1 [label="Session", style=filled];',
+					'\t}',
+					'\tn1 -> n0;',
+					'}',
+				].join('\n')
+			);
+		});
+
+		it('should escape labels', () => {
+			const QuotedTag = Tag.of('say "hi"')<string>();
+			const container = Container.builder()
+				.add(QuotedTag, () => 'hi')
+				.build();
+
+			expect(Graph.toDot(container.graph())).toContain(
+				'n0 [label="say \\"hi\\"", style=dashed];'
+			);
+		});
+	});
+
+	describe('Graph.toMermaid()', () => {
+		it('should render nodes, instantiation state and edges', async () => {
+			const container = createContainer();
+			await container.resolve(UserService);
+
+			expect(Graph.toMermaid(container.graph())).toBe(
+				[
+					'flowchart LR',
+					'\tn0["Database"]:::instantiated',
+					'\tn1["Cache"]:::pending',
+					'\tn2["UserService"]:::instantiated',
+					'\tn2 --> n0',
+					'\tclassDef instantiated fill:#d4edda,stroke:#28a745',
+					'\tclassDef pending fill:#ffffff,stroke:#999999,stroke-dasharray:4 4',
+				].join('\n')
+			);
+		});
+
+		it('should render scopes as subgraphs', () => {
+			const app = ScopedContainer.builder('app')
+				.add(Database, () => new Database())
+				.build();
+			const request = app.child(Symbol('request')).build();
+
+			expect(Graph.toMermaid(request.graph())).toBe(
+				[
+					'flowchart LR',
+					'\tsubgraph scope_0["app"]',
+					'\t\tn0["Database"]:::pending',
+					'\tend',
+					'\tclassDef instantiated fill:#d4edda,stroke:#28a745',
+					'\tclassDef pending fill:#ffffff,stroke:#999999,stroke-dasharray:4 4',
+				].join('\n')
+			);
+		});
+
+		it('should escape labels', () => {
+			const QuotedTag = Tag.of('say "hi"')<string>();
+			const container = Container.builder()
+				.add(QuotedTag, () => 'hi')
+				.build();
+
+			expect(Graph.toMermaid(container.graph())).toContain(
+				'n0["say #quot;hi#quot;"]:::pending'
+			);
+		});
+	});
+});
@@ -0,0 +1,163 @@
+import type {
+	DependencyGraph,
+	DependencyGraphNode,
+	Scope,
+} from './container.js';
+
+/**
+ * Groups graph nodes by the scope of the container they belong to,
+ * preserving the graph's node order.
+ * @internal
+ */
+function groupByScope(
+	graph: DependencyGraph
+): Map<Scope | undefined, DependencyGraphNode[]> {
+	const groups = new Map<Scope | undefined, DependencyGraphNode[]>();
+	for (const node of graph.nodes) {
+		const group = groups.get(node.scope) ?? [];
+		group.push(node);
+		groups.set(node.scope, group);
+	}
+	return groups;
+}
+
+/**
+ * Assigns a stable, syntax-safe identifier to every node.
+ * Tag ids are not unique across scopes and may contain any character.
+ * @internal
+ */
+function nodeKeys(graph: DependencyGraph): Map<DependencyGraphNode, string> {
+	return new Map(graph.nodes.map((node, index) => [node, `n${index}`]));
+}
+
+/**
+ * Escapes a string for use inside a double-quoted DOT string.
+ * @internal
+ */
+function escapeDot(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Escapes a string for use inside a double-quoted Mermaid label.
+ * @internal
+ */
+function escapeMermaid(value: string): string {
+	return value.replace(/"/g, '#quot;');
+}
+
+/**
+ * Utilities for rendering a container's dependency graph as a diagram.
+ *
+ * Nodes are labeled with `Tag.id`, scopes are rendered as clusters, and
+ * instantiated dependencies are visually distinguished from pending ones.
+ *
+ * @example
+ * ```typescript
+ * await container.resolve(UserService);
+ *
+ * const dot = Graph.toDot(container.graph());
+ * const mermaid = Graph.toMermaid(container.graph());
+ * ```
+ */
+export const Graph = {
+	/**
+	 * Renders a dependency graph in Graphviz DOT format.
+	 *
+	 * Instantiated nodes are filled, pending nodes are dashed.
+	 * Edges point from a dependent to its dependency.
+	 *
+	 * @param graph - The graph returned by `container.graph()`
+	 * @returns DOT source, e.g. for `dot -Tsvg`
+	 */
+	toDot: (graph: DependencyGraph): string => {
+		const keys = nodeKeys(graph);
+		const lines = [
+			'digraph dependencies {',
+			'\trankdir=LR;',
+			'\tnode [shape=box];',
+		];
+
+		const renderNode = (node: DependencyGraphNode, indent: string) => {
+			const style = node.instantiated
+				? 'filled'
+				: node.registered
+					? 'dashed'
+					: 'dotted';
+			lines.push(
+				`${indent}${keys.get(node)!} [label="${escapeDot(node.id)}", style=${style}];`
+			);
+		};
+
+		let cluster = 0;
+		for (const [scope, nodes] of groupByScope(graph)) {
+			if (scope === undefined) {
+				nodes.forEach((node) => {
+					renderNode(node, '\t');
+				});
+				continue;
+			}
+			lines.push(`\tsubgraph cluster_${cluster++} {`);
+			lines.push(`\t\tlabel="${escapeDot(String(scope))}";`);
+			nodes.forEach((node) => {
+				renderNode(node, '\t\t');
+			});
+			lines.push('\t}');
+		}
+
+		for (const { from, to } of graph.edges) {
+			lines.push(`\t${keys.get(from)!} -> ${keys.get(to)!};`);
+		}
+
+		lines.push('}');
+		return lines.join('\n');
+	},
+
+	/**
+	 * Renders a dependency graph as a Mermaid flowchart.
+	 *
+	 * Instantiated nodes use the `instantiated` class, pending nodes the
+	 * `pending` class. Edges point from a dependent to its dependency.
+	 *
+	 * @param graph - The graph returned by `container.graph()`
+	 * @returns Mermaid source, e.g. for a fenced `mermaid` block in Markdown
+	 */
+	toMermaid: (graph: DependencyGraph): string => {
+		const keys = nodeKeys(graph);
+		const lines = ['flowchart LR'];
+
+		const renderNode = (node: DependencyGraphNode, indent: string) => {
+			const className = node.instantiated ? 'instantiated' : 'pending';
+			lines.push(
+				`${indent}${keys.get(node)!}["${escapeMermaid(node.id)}"]:::${className}`
+			);
+		};
+
+		let cluster = 0;
+		for (const [scope, nodes] of groupByScope(graph)) {
+			if (scope === undefined) {
+				nodes.forEach((node) => {
+					renderNode(node, '\t');
+				});
+				continue;
+			}
+			lines.push(
+				`\tsubgraph scope_${cluster++}["${escapeMermaid(String(scope))}"]`
+			);
+			nodes.forEach((node) => {
+				renderNode(node, '\t\t');
+			});
+			lines.push('\tend');
+		}
+
+		for (const { from, to } of graph.edges) {
+			lines.push(`\t${keys.get(from)!} --> ${keys.get(to)!}`);
+		}
+
+		lines.push('\tclassDef instantiated fill:#d4edda,stroke:#28a745');
+		lines.push(
+			'\tclassDef pending fill:#ffffff,stroke:#999999,stroke-dasharray:4 4'
+		);
+		return lines.join('\n');
+	},
+};
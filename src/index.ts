@@ -7,35 +7,88 @@ export {
 } from './container.js';
 export type {
 	BuilderTags,
+	ContainerDefaults,
+	ContainerEventListener,
+	ContainerEvents,
 	ContainerTags,
+	ContributionSpec,
+	Decorator,
+	DependencyEvent,
+	DependencyFailureEvent,
+	DependencyGraph,
+	DependencyGraphEdge,
+	DependencyGraphNode,
 	DependencyLifecycle,
+	DependencyOptions,
 	DependencySpec,
+	DestroyInterceptor,
+	DestroyOptions,
 	Factory,
 	Finalizer,
+	FinalizerInterceptor,
 	IContainer,
 	IContainerBuilder,
+	InitReport,
+	Interceptor,
+	InterceptorInfo,
+	LifecycleInterceptors,
+	Lifetime,
 	ResolutionContext,
+	ResolvableTag,
+	ResolveOptions,
+	RetryPolicy,
 	Scope,
 } from './container.js';
 
 // Errors
 export {
+	AsyncFactoryError,
 	CircularDependencyError,
 	ContainerDestroyedError,
 	DependencyCreationError,
 	DependencyFinalizationError,
+	DependencyInitializationError,
+	DependencyTimeoutError,
+	DuplicateEntryKeyError,
+	MissingDependenciesError,
 	SandlyError,
+	ScopeNotFoundError,
 	UnknownDependencyError,
 } from './errors.js';
 export type { ErrorDump } from './errors.js';
 
+// Graph
+export { Graph } from './graph.js';
+
 // Layer
 export { Layer } from './layer.js';
 export type { AnyLayer, Layer as LayerInterface } from './layer.js';
 
 // Tag
-export { Tag } from './tag.js';
-export type { AnyTag, ServiceTag, TagId, TagType, ValueTag } from './tag.js';
+export { Optional, Tag } from './tag.js';
+export type {
+	AnyDefaultTag,
+	AnyManyTag,
+	AnyMapTag,
+	AnyTag,
+	DefaultTag,
+	ManyTag,
+	ManyTagElement,
+	MapTag,
+	MapTagEntry,
+	ServiceTag,
+	ServiceWiring,
+	TagDefault,
+	TagId,
+	TagType,
+	ValueTag,
+	ValueTagFactory,
+	WiredServiceTag,
+} from './tag.js';
+
+// Tracing
+export { Tracing } from './tracing.js';
+export type { Tracer, TracingAttributeValue, TracingSpan } from './tracing.js';
 
 // Types
 export type { PromiseOrValue } from './types.js';
@@ -1,7 +1,8 @@
 import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 import { Container, ScopedContainer } from './container.js';
+import { DuplicateEntryKeyError, MissingDependenciesError } from './errors.js';
 import { Layer } from './layer.js';
-import { Tag } from './tag.js';
+import { Optional, Tag } from './tag.js';
 
 describe('Layer', () => {
 	describe('Layer.service()', () => {
@@ -152,6 +153,46 @@ describe('Layer', () => {
 			expect(cleanup).toHaveBeenCalled();
 		});
 
+		it('should dispose instances when no cleanup function is given', async () => {
+			const dispose = vi.fn();
+
+			class Database {
+				async [Symbol.asyncDispose]() {
+					await Promise.resolve();
+					dispose();
+				}
+			}
+
+			const container = Container.from(Layer.service(Database, []));
+			await container.resolve(Database);
+			await container.destroy();
+
+			expect(dispose).toHaveBeenCalledTimes(1);
+		});
+
+		it('should support transient lifetime', async () => {
+			class Database {}
+			class RequestHandler {
+				constructor(public db: Database) {}
+			}
+
+			const cleanup = vi.fn();
+			const layer = Layer.service(RequestHandler, [Database], {
+				lifetime: 'transient',
+				cleanup,
+			}).provide(Layer.service(Database, []));
+
+			const container = Container.from(layer);
+			const first = await container.resolve(RequestHandler);
+			const second = await container.resolve(RequestHandler);
+
+			expect(first).not.toBe(second);
+			expect(first.db).toBe(second.db);
+
+			await container.destroy();
+			expect(cleanup).toHaveBeenCalledTimes(2);
+		});
+
 		it('should work with classes extending other classes', async () => {
 			class BaseService {
 				base() {
@@ -172,6 +213,163 @@ describe('Layer', () => {
 			expect(service.base()).toBe('base');
 			expect(service.extended()).toBe('extended');
 		});
+
+		describe('optional dependencies', () => {
+			class Telemetry {
+				export() {
+					return true;
+				}
+			}
+			const FlagsTag = Tag.of('flags')<Record<string, boolean>>();
+
+			class Reporter {
+				constructor(
+					readonly telemetry: Telemetry | undefined,
+					readonly flags?: Record<string, boolean>
+				) {}
+			}
+
+			it('should inject undefined when optional tags are not registered', async () => {
+				const layer = Layer.service(Reporter, [
+					Optional(Telemetry),
+					Optional(FlagsTag),
+				]);
+
+				const reporter = await Container.from(layer).resolve(Reporter);
+
+				expect(reporter.telemetry).toBeUndefined();
+				expect(reporter.flags).toBeUndefined();
+			});
+
+			it('should inject optional tags when they are registered', async () => {
+				const layer = Layer.service(Reporter, [
+					Optional(Telemetry),
+					Optional(FlagsTag),
+				])
+					.provide(Layer.service(Telemetry, []))
+					.provide(Layer.value(FlagsTag, { beta: true }));
+
+				const reporter = await Container.from(layer).resolve(Reporter);
+
+				expect(reporter.telemetry).toBeInstanceOf(Telemetry);
+				expect(reporter.flags).toEqual({ beta: true });
+			});
+
+			it('should not count optional tags as requirements', () => {
+				const layer = Layer.service(Reporter, [
+					Optional(Telemetry),
+					FlagsTag,
+				]);
+
+				expect(layer.requires).toEqual([FlagsTag]);
+				expectTypeOf(layer).toEqualTypeOf<
+					Layer<typeof FlagsTag, typeof Reporter>
+				>();
+			});
+
+			it('should only accept Optional for parameters that allow undefined', () => {
+				class StrictReporter {
+					constructor(readonly telemetry: Telemetry) {}
+				}
+
+				// @ts-expect-error - telemetry does not accept undefined
+				Layer.service(StrictReporter, [Optional(Telemetry)]);
+				// @ts-expect-error - Optional(FlagsTag) does not provide Telemetry
+				Layer.service(Reporter, [Optional(FlagsTag), undefined]);
+			});
+		});
+	});
+
+	describe('tag defaults', () => {
+		const PortTag = Tag.of('port')<number>({ default: 3000 });
+		const HostTag = Tag.of('host')<string>();
+
+		class Server {
+			constructor(
+				readonly host: string,
+				readonly port: number
+			) {}
+		}
+
+		it('should not count DefaultTags as requirements', async () => {
+			const layer = Layer.service(Server, [HostTag, PortTag]);
+
+			expect(layer.requires).toEqual([HostTag]);
+			expectTypeOf(layer).toEqualTypeOf<
+				Layer<typeof HostTag, typeof Server>
+			>();
+
+			const server = await Container.from(
+				layer.provide(Layer.value(HostTag, 'localhost'))
+			).resolve(Server);
+
+			expect(server.port).toBe(3000);
+		});
+
+		it('should let layers override defaults', async () => {
+			const layer = Layer.service(Server, ['localhost', PortTag]).provide(
+				Layer.value(PortTag, 8080)
+			);
+
+			const server = await Container.from(layer).resolve(Server);
+
+			expect(server.port).toBe(8080);
+		});
+	});
+
+	describe('self-wired services', () => {
+		class Clock extends Tag.Service() {
+			now() {
+				return 0;
+			}
+		}
+		class Scheduler {
+			constructor(readonly clock: Clock) {}
+		}
+
+		it('should not count self-wired services as requirements', async () => {
+			const layer = Layer.service(Scheduler, [Clock]);
+
+			expect(layer.requires).toEqual([]);
+			expectTypeOf(layer).toEqualTypeOf<Layer<never, typeof Scheduler>>();
+
+			const scheduler = await Container.from(layer).resolve(Scheduler);
+
+			expect(scheduler.clock).toBeInstanceOf(Clock);
+		});
+
+		it('should let layers override the wiring', async () => {
+			const layer = Layer.service(Scheduler, [Clock]).provide(
+				Layer.mock(Clock, { now: () => 42 })
+			);
+
+			const scheduler = await Container.from(layer).resolve(Scheduler);
+
+			expect(scheduler.clock.now()).toBe(42);
+		});
+
+		it('should count the requirements of self-wired services', () => {
+			class Database {}
+			class Repository extends Tag.Service([Database]) {
+				constructor(readonly db: Database) {
+					super();
+				}
+			}
+			class Reports {
+				constructor(readonly repository: Repository) {}
+			}
+
+			const layer = Layer.service(Reports, [Repository]);
+
+			expect(layer.requires).toEqual([Database]);
+			expectTypeOf(layer).toEqualTypeOf<
+				Layer<typeof Database, typeof Reports>
+			>();
+			// @ts-expect-error - Database is not provided
+			expect(() => Container.from(layer)).toThrow(
+				MissingDependenciesError
+			);
+		});
 	});
 
 	describe('Layer.value()', () => {
@@ -245,6 +443,25 @@ describe('Layer', () => {
 			expect(service).toBe(mockUserService);
 			expect(service.getUsers()).toBe('data');
 		});
+
+		it('should not dispose the provided value', async () => {
+			class Connection {
+				readonly dispose = vi.fn();
+
+				[Symbol.dispose]() {
+					this.dispose();
+				}
+			}
+			const connection = new Connection();
+
+			const container = Container.from(
+				Layer.value(Connection, connection)
+			);
+			await container.resolve(Connection);
+			await container.destroy();
+
+			expect(connection.dispose).not.toHaveBeenCalled();
+		});
 	});
 
 	describe('Layer.mock()', () => {
@@ -358,6 +575,369 @@ describe('Layer', () => {
 		});
 	});
 
+	describe('Layer.bind()', () => {
+		abstract class PaymentGateway {
+			abstract charge(amount: number): string;
+		}
+		class StripeGateway extends PaymentGateway {
+			closed = 0;
+			charge(amount: number) {
+				return `stripe:${amount}`;
+			}
+		}
+
+		it('should resolve the bound tag to the implementation instance', async () => {
+			const layer = Layer.bind(PaymentGateway, StripeGateway).provide(
+				Layer.service(StripeGateway, [])
+			);
+			const container = Container.from(layer);
+
+			const gateway = await container.resolve(PaymentGateway);
+
+			expect(gateway).toBeInstanceOf(StripeGateway);
+			expect(gateway.charge(10)).toBe('stripe:10');
+			expect(gateway).toBe(await container.resolve(StripeGateway));
+		});
+
+		it('should create and finalize the implementation once', async () => {
+			const create = vi.fn(() => new StripeGateway());
+			const layer = Layer.mergeAll(
+				Layer.bind(PaymentGateway, StripeGateway),
+				Layer.create({
+					requires: [],
+					apply: (builder) =>
+						builder.add(StripeGateway, {
+							create,
+							cleanup: (gateway) => {
+								gateway.closed++;
+							},
+						}),
+				})
+			);
+			const container = Container.from(layer);
+
+			const [abstract, concrete] = await Promise.all([
+				container.resolve(PaymentGateway),
+				container.resolve(StripeGateway),
+			]);
+			await container.destroy();
+
+			expect(abstract).toBe(concrete);
+			expect(create).toHaveBeenCalledTimes(1);
+			expect(concrete.closed).toBe(1);
+		});
+
+		it('should require the implementation', () => {
+			const layer = Layer.bind(PaymentGateway, StripeGateway);
+
+			expect(layer.requires).toEqual([StripeGateway]);
+			expect(layer.provides).toEqual([PaymentGateway]);
+			expectTypeOf(layer).toEqualTypeOf<
+				Layer<typeof StripeGateway, typeof PaymentGateway>
+			>();
+		});
+
+		it('should bind ValueTags', async () => {
+			const GatewayTag = Tag.of('gateway')<PaymentGateway>();
+			const layer = Layer.bind(GatewayTag, StripeGateway).provide(
+				Layer.service(StripeGateway, [])
+			);
+
+			const gateway = await Container.from(layer).resolve(GatewayTag);
+
+			expect(gateway).toBeInstanceOf(StripeGateway);
+		});
+
+		it('should reject implementations of the wrong type', () => {
+			class Unrelated {
+				refund() {
+					return true;
+				}
+			}
+
+			// @ts-expect-error - Unrelated is not a PaymentGateway
+			Layer.bind(PaymentGateway, Unrelated);
+		});
+
+		it('should not accept abstract classes in Layer.service()', () => {
+			// @ts-expect-error - abstract classes cannot be instantiated
+			Layer.service(PaymentGateway, []);
+		});
+	});
+
+	describe('Layer.decorate()', () => {
+		class UserRepo {
+			find(id: number) {
+				return `user:${id}`;
+			}
+		}
+		class CachedUserRepo extends UserRepo {
+			constructor(
+				readonly inner: UserRepo,
+				readonly ttl: number
+			) {
+				super();
+			}
+			override find(id: number) {
+				return `cached(${this.ttl}):${this.inner.find(id)}`;
+			}
+		}
+		const TtlTag = Tag.of('ttl')<number>();
+
+		it('should wrap the instance registered by another layer', async () => {
+			const cleanup = vi.fn();
+			const repoLayer = Layer.service(UserRepo, [], { cleanup });
+			const layer = Layer.decorate(
+				UserRepo,
+				async (repo, ctx) =>
+					new CachedUserRepo(repo, await ctx.resolve(TtlTag)),
+				{ requires: [TtlTag] }
+			)
+				.provideMerge(repoLayer)
+				.provide(Layer.value(TtlTag, 60));
+			const container = Container.from(layer);
+
+			const repo = await container.resolve(UserRepo);
+			await container.destroy();
+
+			expect(repo.find(1)).toBe('cached(60):user:1');
+			expect(cleanup).toHaveBeenCalledWith(
+				(repo as CachedUserRepo).inner
+			);
+		});
+
+		it('should require the decorated tag and the declared tags', () => {
+			const layer = Layer.decorate(
+				UserRepo,
+				async (repo, ctx) =>
+					new CachedUserRepo(repo, await ctx.resolve(TtlTag)),
+				{ requires: [TtlTag] }
+			);
+
+			expect(layer.requires).toEqual([UserRepo, TtlTag]);
+			expect(layer.provides).toEqual([]);
+			expectTypeOf(layer).toEqualTypeOf<
+				Layer<typeof UserRepo | typeof TtlTag, never>
+			>();
+		});
+
+		it('should only require the decorated tag by default', () => {
+			const layer = Layer.decorate(UserRepo, (repo) => repo).provideMerge(
+				Layer.service(UserRepo, [])
+			);
+
+			expect(layer.requires).toEqual([]);
+			expect(layer.provides).toEqual([UserRepo]);
+			expectTypeOf(layer).toEqualTypeOf<Layer<never, typeof UserRepo>>();
+		});
+
+		it('should keep requiring the decorated tag when merged', () => {
+			const layer = Layer.decorate(UserRepo, (repo) => repo).merge(
+				Layer.empty()
+			);
+
+			expect(layer.requires).toEqual([UserRepo]);
+			expectTypeOf(layer).toEqualTypeOf<Layer<typeof UserRepo, never>>();
+			expect(() =>
+				// @ts-expect-error - UserRepo is not provided
+				Container.from(layer)
+			).toThrow(MissingDependenciesError);
+		});
+
+		it('should apply regardless of merge order', async () => {
+			const layer = Layer.mergeAll(
+				Layer.decorate(UserRepo, (repo) => new CachedUserRepo(repo, 5)),
+				Layer.service(UserRepo, [])
+			);
+			const container = Container.from(layer);
+
+			expect(await container.resolve(UserRepo)).toBeInstanceOf(
+				CachedUserRepo
+			);
+		});
+
+		it('should reject resolving undeclared tags', () => {
+			Layer.decorate(
+				UserRepo,
+				async (repo, ctx) =>
+					// @ts-expect-error - TtlTag is not declared in requires
+					new CachedUserRepo(repo, await ctx.resolve(TtlTag))
+			);
+		});
+	});
+
+	describe('Layer.contribute()', () => {
+		interface Plugin {
+			id: string;
+		}
+		const PluginsTag = Tag.many('plugins')<Plugin>();
+
+		class MetricsPlugin implements Plugin {
+			id = 'metrics';
+		}
+
+		it('should contribute raw values and tags across merged layers', async () => {
+			const layer = Layer.mergeAll(
+				Layer.service(MetricsPlugin, []),
+				Layer.contribute(PluginsTag, MetricsPlugin),
+				Layer.contribute(PluginsTag, { id: 'audit' })
+			);
+
+			const container = Container.from(layer);
+			const plugins = await container.resolve(PluginsTag);
+
+			expect(plugins).toHaveLength(2);
+			expect(plugins[0]).toBe(await container.resolve(MetricsPlugin));
+			expect(plugins[1]).toEqual({ id: 'audit' });
+		});
+
+		it('should expose the contributed element tag as a requirement', () => {
+			const layer = Layer.contribute(PluginsTag, MetricsPlugin);
+
+			expect(layer.requires).toEqual([MetricsPlugin]);
+			expect(layer.provides).toEqual([PluginsTag]);
+			expect(() =>
+				// @ts-expect-error - MetricsPlugin is not provided
+				Container.from(layer)
+			).toThrow(MissingDependenciesError);
+		});
+
+		it('should infer layer types', () => {
+			expectTypeOf(
+				Layer.contribute(PluginsTag, MetricsPlugin)
+			).toEqualTypeOf<Layer<typeof MetricsPlugin, typeof PluginsTag>>();
+			expectTypeOf(
+				Layer.contribute(PluginsTag, { id: 'audit' })
+			).toEqualTypeOf<Layer<never, typeof PluginsTag>>();
+		});
+
+		it('should reject elements of the wrong type', () => {
+			class Unrelated {
+				name = 'unrelated';
+			}
+
+			// @ts-expect-error - Unrelated is not a Plugin
+			Layer.contribute(PluginsTag, Unrelated);
+			// @ts-expect-error - a number is not a Plugin
+			Layer.contribute(PluginsTag, 42);
+		});
+
+		it('should let other layers depend on the collection', async () => {
+			class PluginHost {
+				constructor(readonly plugins: Plugin[]) {}
+			}
+
+			const layer = Layer.service(PluginHost, [PluginsTag]).provide(
+				Layer.contribute(PluginsTag, { id: 'audit' })
+			);
+
+			const host = await Container.from(layer).resolve(PluginHost);
+
+			expect(host.plugins).toEqual([{ id: 'audit' }]);
+		});
+	});
+
+	describe('Layer.contributeEntry()', () => {
+		interface JobHandler {
+			handle(): string;
+		}
+		const JobHandlersTag = Tag.map('jobHandlers')<JobHandler>();
+
+		class EmailJobHandler implements JobHandler {
+			handle() {
+				return 'email';
+			}
+		}
+		class LegacyEmailJobHandler implements JobHandler {
+			handle() {
+				return 'legacy';
+			}
+		}
+
+		it('should contribute keyed entries across merged layers', async () => {
+			const layer = Layer.mergeAll(
+				Layer.service(EmailJobHandler, []),
+				Layer.contributeEntry(JobHandlersTag, 'email', EmailJobHandler),
+				Layer.contributeEntry(
+					JobHandlersTag,
+					'noop',
+					{ handle: () => 'noop' },
+					'NoopJobHandler'
+				)
+			);
+
+			const container = Container.from(layer);
+			const handlers = await container.resolve(JobHandlersTag);
+
+			expect(handlers.get('email')).toBe(
+				await container.resolve(EmailJobHandler)
+			);
+			expect(handlers.get('noop')?.handle()).toBe('noop');
+		});
+
+		it('should name both contributing tags on duplicate keys', () => {
+			const layer = Layer.mergeAll(
+				Layer.service(EmailJobHandler, []),
+				Layer.service(LegacyEmailJobHandler, []),
+				Layer.contributeEntry(JobHandlersTag, 'email', EmailJobHandler),
+				Layer.contributeEntry(
+					JobHandlersTag,
+					'email',
+					LegacyEmailJobHandler
+				)
+			);
+
+			expect(() => Container.from(layer)).toThrow(DuplicateEntryKeyError);
+			expect(() => Container.from(layer)).toThrow(
+				'contributed by "EmailJobHandler" and "LegacyEmailJobHandler"'
+			);
+		});
+
+		it('should name raw-value contributors by their source label', () => {
+			const layer = Layer.mergeAll(
+				Layer.contributeEntry(
+					JobHandlersTag,
+					'noop',
+					{ handle: () => 'noop' },
+					'NoopJobHandler'
+				),
+				Layer.contributeEntry(
+					JobHandlersTag,
+					'noop',
+					{ handle: () => 'silent' },
+					'SilentJobHandler'
+				)
+			);
+
+			expect(() => Container.from(layer)).toThrow(
+				'contributed by "NoopJobHandler" and "SilentJobHandler"'
+			);
+		});
+
+		it('should require a source label for raw values', () => {
+			expect(() =>
+				// @ts-expect-error - raw values need a source label
+				Layer.contributeEntry(JobHandlersTag, 'noop', {
+					handle: () => 'noop',
+				})
+			).not.toThrow();
+		});
+
+		it('should expose metadata and infer layer types', () => {
+			const layer = Layer.contributeEntry(
+				JobHandlersTag,
+				'email',
+				EmailJobHandler
+			);
+
+			expect(layer.requires).toEqual([EmailJobHandler]);
+			expect(layer.provides).toEqual([JobHandlersTag]);
+			expectTypeOf(layer).toEqualTypeOf<
+				Layer<typeof EmailJobHandler, typeof JobHandlersTag>
+			>();
+		});
+	});
+
 	describe('Layer.create()', () => {
 		it('should create a custom layer with no dependencies', async () => {
 			class Database {
@@ -545,6 +1125,31 @@ describe('Layer', () => {
 		});
 	});
 
+	describe('provideMerge()', () => {
+		it('should satisfy requirements and expose both provisions', async () => {
+			class Config {
+				url = 'localhost';
+			}
+			class Database {
+				constructor(readonly config: Config) {}
+			}
+
+			const appLayer = Layer.service(Database, [Config]).provideMerge(
+				Layer.service(Config, [])
+			);
+			const container = Container.from(appLayer);
+
+			expect(appLayer.requires).toEqual([]);
+			expect(appLayer.provides).toEqual([Config, Database]);
+			expectTypeOf(appLayer).toEqualTypeOf<
+				Layer<never, typeof Config | typeof Database>
+			>();
+			expect((await container.resolve(Database)).config).toBe(
+				await container.resolve(Config)
+			);
+		});
+	});
+
 	describe('merge()', () => {
 		it('should combine independent layers', async () => {
 			class Database {}
@@ -713,6 +1318,27 @@ describe('Layer', () => {
 		});
 	});
 
+	describe('synchronous resolution', () => {
+		it('should resolve service and value layers synchronously', () => {
+			const ConfigTag = Tag.of('config')<{ url: string }>();
+			class Database {
+				constructor(readonly config: { url: string }) {}
+			}
+			class UserService {
+				constructor(readonly db: Database) {}
+			}
+
+			const appLayer = Layer.service(UserService, [Database])
+				.provide(Layer.service(Database, [ConfigTag]))
+				.provide(Layer.value(ConfigTag, { url: 'localhost' }));
+			const container = Container.from(appLayer);
+
+			expect(container.resolveSync(UserService).db.config.url).toBe(
+				'localhost'
+			);
+		});
+	});
+
 	describe('Container.from()', () => {
 		it('should create container from fully resolved layer', async () => {
 			class Config {
@@ -743,10 +1369,10 @@ describe('Layer', () => {
 			// Layer with requirements (NOT fully resolved)
 			const layerWithRequirements = Layer.service(Database, [Config]);
 
-			// @ts-expect-error - Layer<typeof Config, typeof Database> is not assignable to Applicable<never, ...>
-			Container.from(layerWithRequirements);
-
-			expect(true).toBe(true);
+			expect(() =>
+				// @ts-expect-error - Layer<typeof Config, typeof Database> is not assignable to Applicable<never, ...>
+				Container.from(layerWithRequirements)
+			).toThrow(MissingDependenciesError);
 		});
 
 		it('should reject layer with requirements for ScopedContainer.from() at compile time', () => {
@@ -759,10 +1385,188 @@ describe('Layer', () => {
 
 			const layerWithRequirements = Layer.service(Database, [Config]);
 
-			// @ts-expect-error - Layer with requirements should not be accepted
-			ScopedContainer.from('app', layerWithRequirements);
+			expect(() =>
+				// @ts-expect-error - Layer with requirements should not be accepted
+				ScopedContainer.from('app', layerWithRequirements)
+			).toThrow(MissingDependenciesError);
+		});
+	});
 
-			expect(true).toBe(true);
+	describe('runtime metadata', () => {
+		class Config {}
+		class Logger {}
+		class Database {
+			constructor(
+				private _config: Config,
+				private _logger: Logger
+			) {}
+		}
+		class UserService {
+			constructor(private _db: Database) {}
+		}
+		const ApiKeyTag = Tag.of('apiKey')<string>();
+
+		it('should expose requires and provides for Layer.service()', () => {
+			const layer = Layer.service(Database, [Config, Logger]);
+
+			expect(layer.requires).toEqual([Config, Logger]);
+			expect(layer.provides).toEqual([Database]);
+		});
+
+		it('should not count raw values as requirements', () => {
+			class ApiClient {
+				constructor(
+					private _key: string,
+					private _logger: Logger
+				) {}
+			}
+
+			const layer = Layer.service(ApiClient, ['secret', Logger]);
+
+			expect(layer.requires).toEqual([Logger]);
+		});
+
+		it('should expose metadata for Layer.value(), Layer.mock() and Layer.empty()', () => {
+			expect(Layer.value(ApiKeyTag, 'key').requires).toEqual([]);
+			expect(Layer.value(ApiKeyTag, 'key').provides).toEqual([ApiKeyTag]);
+			expect(Layer.mock(Logger, {}).provides).toEqual([Logger]);
+			expect(Layer.empty().requires).toEqual([]);
+			expect(Layer.empty().provides).toEqual([]);
+		});
+
+		it('should take provisions of Layer.create() from provides', () => {
+			const apply = vi.fn();
+			const layer = Layer.create({
+				requires: [Config],
+				provides: [Logger],
+				apply: (builder) => {
+					apply();
+					return builder.add(Logger, () => new Logger());
+				},
+			});
+
+			expect(layer.requires).toEqual([Config]);
+			expect(layer.provides).toEqual([Logger]);
+			expect(apply).not.toHaveBeenCalled();
+		});
+
+		it('should accept requirements registered by a Layer.create() without provides', async () => {
+			const layer = Layer.service(Database, [Config, Logger]).merge(
+				Layer.create({
+					requires: [],
+					apply: (builder) =>
+						builder
+							.add(Config, () => new Config())
+							.add(Logger, () => new Logger()),
+				})
+			);
+
+			expect(layer.requires).toEqual([Config, Logger]);
+			const container = Container.from(
+				layer as unknown as Layer<never, typeof Database>
+			);
+			expect(await container.resolve(Database)).toBeInstanceOf(Database);
+		});
+
+		it('should subtract internally satisfied requirements when merging', () => {
+			const layer = Layer.service(Database, [Config, Logger]).merge(
+				Layer.service(Config, [])
+			);
+
+			expect(layer.requires).toEqual([Logger]);
+			expect(layer.provides).toEqual([Database, Config]);
+		});
+
+		it('should only expose the target provisions when providing', () => {
+			const layer = Layer.service(UserService, [Database]).provide(
+				Layer.service(Database, [Config, Logger])
+			);
+
+			expect(layer.requires).toEqual([Config, Logger]);
+			expect(layer.provides).toEqual([UserService]);
+
+			const complete = layer.provide(
+				Layer.mergeAll(
+					Layer.service(Config, []),
+					Layer.service(Logger, [])
+				)
+			);
+			expect(complete.requires).toEqual([]);
+			expect(complete.provides).toEqual([UserService]);
+		});
+
+		it('should list every missing tag when building from an incomplete layer', () => {
+			const factory = vi.fn(() => new Config());
+			const layer = Layer.service(UserService, [Database])
+				.provide(Layer.service(Database, [Config, Logger]))
+				.merge(
+					Layer.create({
+						requires: [],
+						apply: (b) => b.add(Config, factory),
+					})
+				);
+
+			// Casts defeat the compile-time check, but the runtime check still catches it
+			const incomplete = layer as unknown as Layer<
+				never,
+				typeof UserService
+			>;
+
+			try {
+				Container.from(incomplete);
+				expect.fail('Should have thrown');
+			} catch (error) {
+				expect(error).toBeInstanceOf(MissingDependenciesError);
+				expect((error as MissingDependenciesError).detail).toEqual({
+					missing: ['Logger'],
+				});
+			}
+			expect(factory).not.toHaveBeenCalled();
+		});
+
+		it('should validate childFrom() requirements against ancestor scopes', () => {
+			const app = ScopedContainer.from('app', Layer.service(Config, []));
+			const requestLayer = Layer.service(Database, [Config, Logger]);
+
+			expect(() =>
+				app.childFrom(
+					'request',
+					requestLayer as unknown as Layer<
+						typeof Config,
+						typeof Database
+					>
+				)
+			).toThrow(MissingDependenciesError);
+
+			const request = app.childFrom(
+				'request',
+				requestLayer.provide(Layer.service(Logger, []))
+			);
+			expect(request).toBeInstanceOf(ScopedContainer);
+		});
+
+		it('should accept childFrom() requirements bound to aliases in ancestor scopes', async () => {
+			abstract class Gateway {}
+			class StripeGateway extends Gateway {}
+			class Checkout {
+				constructor(readonly gateway: Gateway) {}
+			}
+			const app = ScopedContainer.from(
+				'app',
+				Layer.bind(Gateway, StripeGateway).provide(
+					Layer.service(StripeGateway, [])
+				)
+			);
+			const session = app.child('session').build();
+
+			const request = session.childFrom(
+				'request',
+				Layer.service(Checkout, [Gateway])
+			);
+
+			expect((await request.resolve(Checkout)).gateway).toBe(
+				await app.resolve(StripeGateway)
+			);
 		});
 	});
 
@@ -1374,6 +2178,27 @@ describe('Layer', () => {
 			expect(db.query()).toBe('data');
 		});
 
+		it('should apply scope-bound layers once at the root', async () => {
+			class Database {}
+			class Session {
+				constructor(public db: Database) {}
+			}
+
+			const appLayer = Layer.service(Session, [Database], {
+				scope: 'request',
+			}).provide(Layer.service(Database, []));
+
+			const app = ScopedContainer.from('app', appLayer);
+			const request1 = app.child('request').build();
+			const request2 = app.child('request').build();
+
+			const session1 = await request1.resolve(Session);
+			const session2 = await request2.resolve(Session);
+
+			expect(session1).not.toBe(session2);
+			expect(session1.db).toBe(session2.db);
+		});
+
 		it('should apply layer to scoped container child builder', async () => {
 			class AppConfig {
 				url = 'localhost';
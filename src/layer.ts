@@ -1,15 +1,34 @@
 import {
 	Container,
 	ContainerBuilder,
+	type Decorator,
+	type DependencyOptions,
 	type Finalizer,
 	type IContainer,
 	type IContainerBuilder,
+	instantiate,
 	type ResolutionContext,
+	resolveDependency,
 	ScopedContainer,
 	ScopedContainerBuilder,
 } from './container.js';
-import { AnyTag, ServiceTag, Tag, TagType, ValueTag } from './tag.js';
-import { Contravariant, Covariant } from './types.js';
+import {
+	AbstractServiceTag,
+	AnyManyTag,
+	AnyMapTag,
+	AnyTag,
+	ExtractTags,
+	ManyTagElement,
+	MapTagEntry,
+	RequiredTag,
+	ServiceTag,
+	Tag,
+	TagType,
+	ValidDepFor,
+	ValidDepsFor,
+	ValidTagFor,
+} from './tag.js';
+import { Contravariant, Covariant, PromiseOrValue } from './types.js';
 
 /**
  * Replaces the TTags type parameter in a container type with a new type.
@@ -39,52 +58,14 @@ export type WithBuilderTags<
 		? ContainerBuilder<TNewTags>
 		: IContainerBuilder<TNewTags>;
 
-/**
- * Defines what constitutes a valid dependency for a given parameter type T.
- * A valid dependency is either:
- * - A ServiceTag (class) whose instances are assignable to T
- * - A ValueTag whose value type is assignable to T
- * - A raw value of type T
- *
- * The conditional uses `[T] extends [object]` (tuple-wrapped) to prevent
- * distribution over union types. Without this, a parameter typed as a
- * string union (e.g. `'SANDBOX' | 'PRODUCTION'`) would distribute into
- * `ValueTag<any, 'SANDBOX'> | ValueTag<any, 'PRODUCTION'>`, and a
- * `ValueTag<any, 'SANDBOX' | 'PRODUCTION'>` would not be assignable to
- * either branch (ValueTag is invariant in its value parameter).
- * @internal
- */
-/* eslint-disable @typescript-eslint/no-explicit-any */
-type ValidDepFor<T> =
-	| ([T] extends [object]
-			? ServiceTag<T> | ValueTag<any, T>
-			: ValueTag<any, T>)
-	| T;
-/* eslint-enable @typescript-eslint/no-explicit-any */
-
-/**
- * Maps constructor parameters to valid dependency types.
- * Each parameter type T becomes ValidDepFor<T>.
- * @internal
- */
-type ValidDepsFor<TParams extends readonly unknown[]> = {
-	readonly [K in keyof TParams]: ValidDepFor<TParams[K]>;
-};
-
-/**
- * Extracts only the tags from a dependency array (filters out raw values).
- * Used to determine layer requirements.
- * @internal
- */
-type ExtractTags<T extends readonly unknown[]> = {
-	[K in keyof T]: T[K] extends AnyTag ? T[K] : never;
-}[number];
-
 /**
  * The most generic layer type that accepts any concrete layer.
+ *
+ * Provisions are contravariant, so `never` (rather than `any`) is the type
+ * every layer's provisions accept, including layers providing nothing.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type AnyLayer = Layer<any, any>;
+export type AnyLayer = Layer<any, never>;
 
 /**
  * The type ID for the Layer interface.
@@ -96,8 +77,7 @@ export const LayerTypeId: unique symbol = Symbol.for('sandly/Layer');
  * @internal
  */
 type UnionOfRequires<T extends readonly AnyLayer[]> = {
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	[K in keyof T]: T[K] extends Layer<infer R, any> ? R : never;
+	[K in keyof T]: T[K] extends Layer<infer R, never> ? R : never;
 }[number];
 
 /**
@@ -141,6 +121,19 @@ export interface Layer<TRequires extends AnyTag, TProvides extends AnyTag> {
 		readonly _TProvides: Contravariant<TProvides>;
 	};
 
+	/**
+	 * Tags this layer requires at runtime, mirroring `TRequires`.
+	 *
+	 * Used by `Container.from()` and friends to validate the complete graph
+	 * before any factory runs, even when casts have defeated the type check.
+	 */
+	readonly requires: readonly AnyTag[];
+
+	/**
+	 * Tags this layer provides at runtime, mirroring `TProvides`.
+	 */
+	readonly provides: readonly AnyTag[];
+
 	/**
 	 * Applies this layer's registrations to a container builder.
 	 * Works with both ContainerBuilder and ScopedContainerBuilder.
@@ -171,6 +164,30 @@ export interface Layer<TRequires extends AnyTag, TProvides extends AnyTag> {
 		TProvides
 	>;
 
+	/**
+	 * Provides a dependency layer to this layer, exposing both layers'
+	 * provisions.
+	 *
+	 * Wires the layers like `provide()`, but the result keeps the dependency's
+	 * provisions too. Use it to compose layers that consume the tags they
+	 * affect instead of providing them, such as `Layer.decorate()`.
+	 *
+	 * @example
+	 * ```typescript
+	 * const repoLayer = Layer.decorate(
+	 *   UserRepo,
+	 *   (repo) => new CachedUserRepo(repo)
+	 * ).provideMerge(userRepoLayer);
+	 * // Type: Layer<typeof Database, typeof UserRepo>
+	 * ```
+	 */
+	provideMerge: <TDepRequires extends AnyTag, TDepProvides extends AnyTag>(
+		dependency: Layer<TDepRequires, TDepProvides>
+	) => Layer<
+		Exclude<TRequires | TDepRequires, TProvides | TDepProvides>,
+		TProvides | TDepProvides
+	>;
+
 	/**
 	 * Merges this layer with another layer, exposing both layers' provisions.
 	 *
@@ -197,22 +214,66 @@ export interface Layer<TRequires extends AnyTag, TProvides extends AnyTag> {
 	>;
 }
 
+/**
+ * Removes duplicates and the given satisfied tags from a list of tags.
+ * @internal
+ */
+function subtractTags(
+	tags: Iterable<AnyTag>,
+	satisfied: Iterable<AnyTag> = []
+): AnyTag[] {
+	const exclude = new Set(satisfied);
+	return Array.from(new Set(tags)).filter((tag) => !exclude.has(tag));
+}
+
+/**
+ * Runtime counterpart of `ExtractTags`: the tags declared dependencies
+ * require from another layer, including those of self-wired services.
+ * @internal
+ */
+function requiredTags(
+	deps: readonly unknown[],
+	visited = new Set<unknown>()
+): AnyTag[] {
+	const tags: AnyTag[] = [];
+	for (const dep of deps) {
+		if (!Tag.isTag(dep) || Tag.hasDefault(dep) || visited.has(dep)) {
+			continue;
+		}
+		visited.add(dep);
+		if (Tag.hasWiring(dep)) {
+			tags.push(...requiredTags(dep.deps, visited));
+		} else {
+			tags.push(dep);
+		}
+	}
+	return tags;
+}
+
 /**
  * Creates a layer from a builder function.
  * @internal
  */
 function createLayer<TRequires extends AnyTag, TProvides extends AnyTag>(
+	requires: readonly AnyTag[],
+	provides: readonly AnyTag[],
 	applyFn: <TBuilder extends IContainerBuilder<TRequires>>(
 		builder: TBuilder
 	) => WithBuilderTags<TBuilder, TRequires | TProvides>
 ): Layer<TRequires, TProvides> {
 	const layerImpl: Layer<TRequires, TProvides> = {
+		requires: subtractTags(requires),
+		provides: subtractTags(provides),
 		apply: applyFn,
 
 		provide(dependency) {
 			return createProvidedLayer(dependency, layerImpl);
 		},
 
+		provideMerge(dependency) {
+			return createMergedLayer(dependency, layerImpl);
+		},
+
 		merge(other) {
 			return createMergedLayer(layerImpl, other);
 		},
@@ -240,10 +301,25 @@ function createProvidedLayer<
 	Exclude<TRequires | TDepRequires, TProvides | TDepProvides>,
 	TProvides
 > {
-	return createMergedLayer(dependency, target) as Layer<
+	const merged = createMergedLayer(dependency, target);
+	const provided: Layer<
 		Exclude<TRequires | TDepRequires, TProvides | TDepProvides>,
 		TProvides
-	>;
+	> = {
+		...merged,
+		provides: target.provides,
+		provide(dep) {
+			return createProvidedLayer(dep, provided);
+		},
+
+		provideMerge(dep) {
+			return createMergedLayer(dep, provided);
+		},
+		merge(other) {
+			return createMergedLayer(provided, other);
+		},
+	};
+	return provided;
 }
 
 /**
@@ -270,6 +346,11 @@ function createMergedLayer<
 	type TR = Exclude<TRequires1 | TRequires2, TProvides1 | TProvides2>;
 	type TP = TProvides1 | TProvides2;
 	const merged: Layer<TR, TP> = {
+		requires: subtractTags(
+			[...layer1.requires, ...layer2.requires],
+			[...layer1.provides, ...layer2.provides]
+		),
+		provides: subtractTags([...layer1.provides, ...layer2.provides]),
 		apply: (builder) => {
 			// eslint-disable-next-line @typescript-eslint/no-explicit-any
 			const with1 = layer1.apply(builder as any);
@@ -279,6 +360,10 @@ function createMergedLayer<
 		provide(dep) {
 			return createProvidedLayer(dep, merged);
 		},
+
+		provideMerge(dep) {
+			return createMergedLayer(dep, merged);
+		},
 		merge(other) {
 			return createMergedLayer(merged, other);
 		},
@@ -321,7 +406,7 @@ export const Layer = {
 	 *
 	 * @param cls - The service class
 	 * @param deps - Array of dependencies (tags or raw values) matching constructor params
-	 * @param options - Optional cleanup function for the service
+	 * @param options - Optional cleanup function and registration options (e.g. `lifetime`)
 	 *
 	 * @example
 	 * ```typescript
@@ -336,31 +421,36 @@ export const Layer = {
 	 *
 	 * // Also works with raw values
 	 * const userLayer2 = Layer.service(UserService, [Database, 'my-api-key']);
+	 *
+	 * // Optional dependencies are undefined when not registered
+	 * class ReportService {
+	 *   constructor(private flags: FeatureFlags | undefined) {}
+	 * }
+	 * const reportLayer = Layer.service(ReportService, [Optional(FeatureFlags)]);
+	 *
+	 * // A fresh instance for every resolution
+	 * const handlerLayer = Layer.service(RequestHandler, [UserService], {
+	 *   lifetime: 'transient',
+	 * });
 	 * ```
 	 */
 	service<TClass extends ServiceTag, const TDeps extends readonly unknown[]>(
 		cls: TClass,
 		deps: TDeps & ValidDepsFor<ConstructorParameters<TClass>>,
-		options?: { cleanup?: Finalizer<InstanceType<TClass>> }
+		options?: DependencyOptions & {
+			cleanup?: Finalizer<InstanceType<TClass>>;
+		}
 	): Layer<ExtractTags<TDeps>, TClass> {
+		const requires = requiredTags(deps);
 		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		return createLayer((builder: any) => {
+		return createLayer(requires, [cls], (builder: any) => {
 			// eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
 			return builder.add(cls, {
-				create: async (
-					ctx: ResolutionContext<ExtractTags<TDeps>>
-				): Promise<InstanceType<TClass>> => {
-					// Resolve tags, pass through raw values
-					const args = await Promise.all(
-						deps.map((dep) =>
-							// eslint-disable-next-line @typescript-eslint/no-explicit-any
-							Tag.isTag(dep) ? ctx.resolve(dep as any) : dep
-						)
-					);
-
-					return new cls(...args) as InstanceType<TClass>;
-				},
-				cleanup: options?.cleanup,
+				...options,
+				create: (ctx: ResolutionContext<ExtractTags<TDeps>>) =>
+					instantiate(ctx, cls, deps) as PromiseOrValue<
+						InstanceType<TClass>
+					>,
 			});
 		});
 	},
@@ -394,11 +484,15 @@ export const Layer = {
 	 */
 	value<T extends AnyTag>(tag: T, value: TagType<T>): Layer<never, T> {
 		return createLayer<never, T>(
+			[],
+			[tag],
 			<TBuilder extends IContainerBuilder>(builder: TBuilder) => {
-				return builder.add(tag, () => value) as WithBuilderTags<
-					TBuilder,
-					T
-				>;
+				// The value is owned by the caller, so it is never disposed
+				return builder.add(tag, {
+					// eslint-disable-next-line @typescript-eslint/no-unsafe-return
+					create: () => value,
+					autoDispose: false,
+				}) as WithBuilderTags<TBuilder, T>;
 			}
 		);
 	},
@@ -444,20 +538,197 @@ export const Layer = {
 	 */
 	mock<T extends AnyTag>(
 		tag: T,
-		implementation: T extends ServiceTag
+		implementation: T extends AbstractServiceTag
 			? Partial<TagType<T>> | TagType<T>
 			: TagType<T>
 	): Layer<never, T> {
 		return createLayer<never, T>(
+			[],
+			[tag],
 			<TBuilder extends IContainerBuilder>(builder: TBuilder) => {
-				return builder.add(
-					tag,
-					() => implementation as TagType<T>
-				) as WithBuilderTags<TBuilder, T>;
+				return builder.add(tag, {
+					// eslint-disable-next-line @typescript-eslint/no-unsafe-return
+					create: () => implementation as TagType<T>,
+					autoDispose: false,
+				}) as WithBuilderTags<TBuilder, T>;
 			}
 		);
 	},
 
+	/**
+	 * Creates a layer that binds a tag to another tag implementing it.
+	 *
+	 * Typically binds an abstract class to a concrete subclass. Resolving the
+	 * bound tag resolves the implementation, so both share the same instance
+	 * and its finalizer runs once. The implementation must be registered by
+	 * another layer; its instance type must be assignable to the bound tag's.
+	 *
+	 * @param tag - The tag to bind, e.g. an abstract class
+	 * @param implementation - The tag whose instance is returned
+	 *
+	 * @example
+	 * ```typescript
+	 * abstract class PaymentGateway {
+	 *   abstract charge(amount: number): Promise<void>;
+	 * }
+	 * class StripeGateway extends PaymentGateway { ... }
+	 *
+	 * const paymentsLayer = Layer.bind(PaymentGateway, StripeGateway).provide(
+	 *   Layer.service(StripeGateway, [StripeConfigTag])
+	 * );
+	 * // Type: Layer<typeof StripeConfigTag, typeof PaymentGateway>
+	 * ```
+	 */
+	bind<
+		T extends AnyTag,
+		const TImplementation extends ValidTagFor<TagType<T>>,
+	>(
+		tag: T,
+		implementation: TImplementation
+	): Layer<RequiredTag<TImplementation>, T> {
+		const requires = requiredTags([implementation]);
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		return createLayer(requires, [tag], (builder: any) => {
+			// eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+			return builder.alias(tag, implementation);
+		});
+	},
+
+	/**
+	 * Creates a layer that wraps the instance registered for a tag.
+	 *
+	 * The original factory and finalizer are kept: the decorator receives the
+	 * created instance and returns the one to expose, while the finalizer still
+	 * receives the original. The layer requires the decorated tag plus the
+	 * tags listed in `options.requires`, which the decorator may resolve, and
+	 * provides nothing: compose it with `provideMerge()` (or merge it with a
+	 * layer providing the tag) to keep the tag available.
+	 *
+	 * @param tag - The tag to decorate
+	 * @param decorator - Function returning the instance to expose
+	 * @param options.requires - Tags the decorator resolves from the context
+	 *
+	 * @example
+	 * ```typescript
+	 * const cachedRepoLayer = Layer.decorate(
+	 *   UserRepo,
+	 *   async (repo, ctx) => new CachedUserRepo(repo, await ctx.resolve(Cache)),
+	 *   { requires: [Cache] }
+	 * ).provideMerge(userRepoLayer);
+	 * // Type: Layer<typeof Cache | ..., typeof UserRepo>
+	 * ```
+	 */
+	decorate<
+		T extends AnyTag,
+		const TRequires extends readonly AnyTag[] = readonly [],
+	>(
+		tag: T,
+		decorator: Decorator<TagType<T>, TRequires[number]>,
+		options?: { requires?: TRequires }
+	): Layer<T | TRequires[number], never> {
+		const requires = [tag, ...(options?.requires ?? [])];
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		return createLayer(requires, [], (builder: any) => {
+			// eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+			return builder.decorate(tag, decorator);
+		});
+	},
+
+	/**
+	 * Creates a layer that contributes one element to a ManyTag.
+	 *
+	 * Merge several contribution layers to build up a collection; resolving
+	 * the ManyTag yields every contributed element in registration order.
+	 *
+	 * @param tag - The ManyTag to contribute to
+	 * @param dep - The element: a tag resolved from the container, or a raw value
+	 *
+	 * @example
+	 * ```typescript
+	 * const PluginsTag = Tag.many('plugins')<Plugin>();
+	 *
+	 * const pluginsLayer = Layer.mergeAll(
+	 *   Layer.service(MetricsPlugin, [Database]),
+	 *   Layer.contribute(PluginsTag, MetricsPlugin),
+	 *   Layer.contribute(PluginsTag, new AuditPlugin())
+	 * );
+	 * ```
+	 */
+	contribute<
+		T extends AnyManyTag,
+		const TDep extends ValidDepFor<ManyTagElement<T>>,
+	>(tag: T, dep: TDep): Layer<RequiredTag<TDep>, T> {
+		const requires = requiredTags([dep]);
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		return createLayer(requires, [tag], (builder: any) => {
+			// eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+			return builder.contribute(tag, {
+				create: (ctx: ResolutionContext<AnyTag>) =>
+					resolveDependency(ctx, dep),
+				// Tags are finalized by their own registration, and raw
+				// values belong to the caller
+				autoDispose: false,
+			});
+		});
+	},
+
+	/**
+	 * Creates a layer that contributes one keyed entry to a MapTag.
+	 *
+	 * Merge several entry layers to build up a map; resolving the MapTag yields
+	 * every contributed entry. Contributing the same key twice throws a
+	 * `DuplicateEntryKeyError` naming both contributors when the container is built.
+	 *
+	 * @param tag - The MapTag to contribute to
+	 * @param key - The entry key, unique within the tag
+	 * @param dep - The entry value: a tag resolved from the container, or a raw value
+	 * @param source - Name of the contributor; required for raw values,
+	 *   defaults to the id of the contributed tag
+	 *
+	 * @example
+	 * ```typescript
+	 * const JobHandlersTag = Tag.map('jobHandlers')<JobHandler>();
+	 *
+	 * const jobsLayer = Layer.mergeAll(
+	 *   Layer.service(EmailJobHandler, [Mailer]),
+	 *   Layer.contributeEntry(JobHandlersTag, 'email', EmailJobHandler),
+	 *   Layer.contributeEntry(
+	 *     JobHandlersTag,
+	 *     'noop',
+	 *     { run: async () => {} },
+	 *     'NoopJobHandler'
+	 *   )
+	 * );
+	 * ```
+	 */
+	contributeEntry<
+		T extends AnyMapTag,
+		const TDep extends ValidDepFor<MapTagEntry<T>>,
+	>(
+		tag: T,
+		key: string,
+		dep: TDep,
+		...[source]: TDep extends AnyTag ? [source?: string] : [source: string]
+	): Layer<RequiredTag<TDep>, T> {
+		const requires = requiredTags([dep]);
+		const label = source ?? (Tag.isTag(dep) ? Tag.id(dep) : String(dep));
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		return createLayer(requires, [tag], (builder: any) => {
+			// eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+			return builder.contributeEntry(
+				tag,
+				key,
+				{
+					create: (ctx: ResolutionContext<AnyTag>) =>
+						resolveDependency(ctx, dep),
+					// Same as Layer.contribute()
+					autoDispose: false,
+				},
+				label
+			);
+		});
+	},
+
 	/**
 	 * Creates a custom layer with full control over the factory logic.
 	 *
@@ -467,7 +738,13 @@ export const Layer = {
 	 * - `TRequires` is inferred from the `requires` array
 	 * - `TProvides` is inferred from what `apply` adds to the builder
 	 *
+	 * `apply` only runs when the layer is applied to a builder, so the tags it
+	 * registers are not known up front. List them in `provides` to expose them
+	 * as `layer.provides`, which lets merged layers subtract them from their
+	 * requirements.
+	 *
 	 * @param options.requires - Array of tags this layer requires (use [] for no requirements)
+	 * @param options.provides - Tags `apply` registers, for the runtime metadata
 	 * @param options.apply - Function that adds registrations to a builder
 	 *
 	 * @example
@@ -475,6 +752,7 @@ export const Layer = {
 	 * // Layer with dependencies - TProvides inferred from builder.add()
 	 * const cacheLayer = Layer.create({
 	 *   requires: [Database],
+	 *   provides: [Cache],
 	 *   apply: (builder) => builder
 	 *     .add(Cache, async (ctx) => {
 	 *       const db = await ctx.resolve(Database);
@@ -486,6 +764,7 @@ export const Layer = {
 	 * // Layer with no dependencies
 	 * const dbLayer = Layer.create({
 	 *   requires: [],
+	 *   provides: [Database],
 	 *   apply: (builder) => builder.add(Database, () => new Database())
 	 * });
 	 * // Type: Layer<never, typeof Database>
@@ -496,12 +775,16 @@ export const Layer = {
 		TAllTags extends AnyTag,
 	>(options: {
 		requires: TRequires;
+		provides?: readonly AnyTag[];
 		apply: (
 			builder: IContainerBuilder<TRequires[number]>
 		) => IContainerBuilder<TAllTags>;
 	}): Layer<TRequires[number], Exclude<TAllTags, TRequires[number]>> {
 		type TProvides = Exclude<TAllTags, TRequires[number]>;
+
 		const layer: Layer<TRequires[number], TProvides> = {
+			requires: subtractTags(options.requires),
+			provides: subtractTags(options.provides ?? [], options.requires),
 			apply: (builder) => {
 				// eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-unsafe-return
 				return options.apply(builder as any) as any;
@@ -509,6 +792,9 @@ export const Layer = {
 			provide(dep) {
 				return createProvidedLayer(dep, layer);
 			},
+			provideMerge(dep) {
+				return createMergedLayer(dep, layer);
+			},
 			merge(other) {
 				return createMergedLayer(layer, other);
 			},
@@ -528,7 +814,7 @@ export const Layer = {
 	 */
 	empty(): Layer<never, never> {
 		// eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-return
-		return createLayer((builder: any) => builder);
+		return createLayer([], [], (builder: any) => builder);
 	},
 
 	/**
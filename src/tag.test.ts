@@ -1,6 +1,7 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, expectTypeOf, it } from 'vitest';
 import {
 	type AnyTag,
+	Optional,
 	type ServiceTag,
 	Tag,
 	type TagType,
@@ -45,6 +46,70 @@ describe('Tag System', () => {
 		});
 	});
 
+	describe('Tag.of() - defaults', () => {
+		it('should create a DefaultTag from a default value', () => {
+			const PortTag = Tag.of('port')<number>({ default: 3000 });
+
+			expect(Tag.isValueTag(PortTag)).toBe(true);
+			expect(Tag.hasDefault(PortTag)).toBe(true);
+			expect(Tag.id(PortTag)).toBe('port');
+			expectTypeOf<TagType<typeof PortTag>>().toEqualTypeOf<number>();
+		});
+
+		it('should create a DefaultTag from a default factory', () => {
+			const StartedAtTag = Tag.of('startedAt')<Date>({
+				defaultFactory: () => new Date(),
+			});
+
+			expect(Tag.hasDefault(StartedAtTag)).toBe(true);
+		});
+
+		it('should not give plain tags a default', () => {
+			class MyService {}
+
+			expect(Tag.hasDefault(Tag.of('port')<number>())).toBe(false);
+			expect(Tag.hasDefault(MyService)).toBe(false);
+			expect(Tag.hasDefault(null)).toBe(false);
+		});
+
+		it('should type-check the default against the tag type', () => {
+			// @ts-expect-error - default must be a number
+			Tag.of('port')<number>({ default: '3000' });
+		});
+	});
+
+	describe('Tag.Service() - self-wired classes', () => {
+		it('should declare static deps', () => {
+			class Database {}
+			class UserRepository extends Tag.Service([Database, 'users']) {}
+
+			expect(UserRepository.deps).toEqual([Database, 'users']);
+			expectTypeOf(UserRepository.deps).toEqualTypeOf<
+				readonly [typeof Database, 'users']
+			>();
+			expect(Tag.hasWiring(UserRepository)).toBe(true);
+			expect(Tag.isServiceTag(UserRepository)).toBe(true);
+		});
+
+		it('should default to no deps', () => {
+			class Clock extends Tag.Service() {}
+
+			expect(Clock.deps).toEqual([]);
+			expect(Tag.hasWiring(Clock)).toBe(true);
+		});
+
+		it('should detect the static contract structurally', () => {
+			class Wired {
+				static readonly deps = [];
+			}
+			class Plain {}
+
+			expect(Tag.hasWiring(Wired)).toBe(true);
+			expect(Tag.hasWiring(Plain)).toBe(false);
+			expect(Tag.hasWiring(Tag.of('deps')<string>())).toBe(false);
+		});
+	});
+
 	describe('Tag.id() - Tag identification', () => {
 		it('should return constructor name for classes', () => {
 			class UserService {}
@@ -52,6 +117,16 @@ describe('Tag System', () => {
 			expect(Tag.id(UserService)).toBe('UserService');
 		});
 
+		it('should use the class name for abstract classes', () => {
+			abstract class PaymentGateway {}
+
+			expect(Tag.id(PaymentGateway)).toBe('PaymentGateway');
+			expect(Tag.isTag(PaymentGateway)).toBe(true);
+			expectTypeOf<
+				TagType<typeof PaymentGateway>
+			>().toEqualTypeOf<PaymentGateway>();
+		});
+
 		it('should return static Tag property if present', () => {
 			class ApiClient {
 				static readonly Tag = 'MyCustomApiClient';
@@ -172,6 +247,74 @@ describe('Tag System', () => {
 		});
 	});
 
+	describe('Tag.many() - ManyTag creation', () => {
+		it('should create a ValueTag for a collection', () => {
+			const PluginsTag = Tag.many('plugins')<{ name: string }>();
+
+			expect(Tag.isValueTag(PluginsTag)).toBe(true);
+			expect(Tag.id(PluginsTag)).toBe('plugins');
+			expectTypeOf<TagType<typeof PluginsTag>>().toEqualTypeOf<
+				{ name: string }[]
+			>();
+		});
+	});
+
+	describe('Tag.isManyTag() - ManyTag type guard', () => {
+		it('should return true for ManyTags', () => {
+			expect(Tag.isManyTag(Tag.many('plugins')<string>())).toBe(true);
+		});
+
+		it('should return false for other tags and values', () => {
+			class MyService {}
+
+			expect(Tag.isManyTag(Tag.of('config')<string[]>())).toBe(false);
+			expect(Tag.isManyTag(MyService)).toBe(false);
+			expect(Tag.isManyTag({})).toBe(false);
+			expect(Tag.isManyTag(null)).toBe(false);
+		});
+	});
+
+	describe('Tag.map() - MapTag creation', () => {
+		it('should create a ValueTag for a keyed collection', () => {
+			const CommandsTag = Tag.map('commands')<{ run(): void }>();
+
+			expect(Tag.isValueTag(CommandsTag)).toBe(true);
+			expect(Tag.isMapTag(CommandsTag)).toBe(true);
+			expect(Tag.isManyTag(CommandsTag)).toBe(false);
+			expect(Tag.id(CommandsTag)).toBe('commands');
+			expectTypeOf<TagType<typeof CommandsTag>>().toEqualTypeOf<
+				Map<string, { run(): void }>
+			>();
+		});
+
+		it('should not treat other tags as MapTags', () => {
+			expect(Tag.isMapTag(Tag.many('plugins')<string>())).toBe(false);
+			expect(Tag.isMapTag(Tag.of('config')<Map<string, string>>())).toBe(
+				false
+			);
+			expect(Tag.isMapTag({})).toBe(false);
+		});
+	});
+
+	describe('Optional() - Optional markers', () => {
+		it('should wrap a tag', () => {
+			class Telemetry {}
+			const FlagsTag = Tag.of('flags')<string[]>();
+
+			expect(Tag.isOptional(Optional(Telemetry))).toBe(true);
+			expect(Tag.isOptional(Optional(FlagsTag))).toBe(true);
+		});
+
+		it('should not be a tag itself', () => {
+			class Telemetry {}
+
+			expect(Tag.isTag(Optional(Telemetry))).toBe(false);
+			expect(Tag.isOptional(Telemetry)).toBe(false);
+			expect(Tag.isOptional({})).toBe(false);
+			expect(Tag.isOptional(null)).toBe(false);
+		});
+	});
+
 	describe('Tag.isTag() - General tag type guard', () => {
 		it('should return true for ServiceTags (classes)', () => {
 			class MyService {}
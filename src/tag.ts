@@ -1,3 +1,5 @@
+import { PromiseOrValue } from './types.js';
+
 /**
  * Type representing a tag identifier (string or symbol).
  */
@@ -15,6 +17,36 @@ export const ValueTagIdKey = 'sandly/ValueTagIdKey';
  */
 export const TagTypeKey = 'sandly/TagTypeKey';
 
+/**
+ * Symbol used to identify ManyTag objects at runtime.
+ * @internal
+ */
+export const ManyTagKey = 'sandly/ManyTagKey';
+
+/**
+ * Symbol used to identify MapTag objects at runtime.
+ * @internal
+ */
+export const MapTagKey = 'sandly/MapTagKey';
+
+/**
+ * Symbol used to identify Optional markers at runtime.
+ * @internal
+ */
+export const OptionalTagKey = 'sandly/OptionalTagKey';
+
+/**
+ * Symbol used to store the default factory of DefaultTag objects at runtime.
+ * @internal
+ */
+export const DefaultTagKey = 'sandly/DefaultTagKey';
+
+/**
+ * Symbol used to carry the phantom requirements of `Tag.Service()` classes.
+ * @internal
+ */
+export const ServiceRequiresKey = 'sandly/ServiceRequiresKey';
+
 /**
  * A ServiceTag is any class constructor.
  *
@@ -37,6 +69,29 @@ export const TagTypeKey = 'sandly/TagTypeKey';
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type ServiceTag<T = unknown> = new (...args: any[]) => T;
 
+/**
+ * An AbstractServiceTag is any class constructor, including abstract classes.
+ *
+ * Abstract classes can be used as tags for interfaces whose implementation
+ * is chosen by a layer, e.g. with `Layer.bind()`. Unlike ServiceTags, they
+ * cannot be registered with `Layer.service()`, which instantiates the class.
+ *
+ * @template T - The type of instances of this class
+ *
+ * @example
+ * ```typescript
+ * abstract class PaymentGateway {
+ *   abstract charge(amount: number): Promise<void>;
+ * }
+ *
+ * const gateway = await container.resolve(PaymentGateway);
+ * ```
+ */
+export type AbstractServiceTag<T = unknown> = abstract new (
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	...args: any[]
+) => T;
+
 /**
  * A ValueTag represents a non-class dependency (primitives, objects, functions).
  *
@@ -62,15 +117,251 @@ export interface ValueTag<Id extends TagId, T> {
 	readonly [TagTypeKey]: T;
 }
 
+/**
+ * Static wiring contract for classes that register themselves.
+ *
+ * A class with a static `deps` array can be resolved from any container
+ * without a `Layer.service()` call: the container constructs it with `deps`
+ * resolved the same way `Layer.service()` resolves its dependency array.
+ * Classes usually get the contract by extending `Tag.Service()`.
+ *
+ * @template T - The instance type
+ */
+export interface ServiceWiring<T = unknown> {
+	/** Constructor arguments: tags to resolve, `Optional` tags or raw values. */
+	readonly deps: readonly unknown[];
+	/** Called with the instance when the container is destroyed. */
+	cleanup?(instance: T): PromiseOrValue<void>;
+}
+
+/**
+ * A ServiceTag that carries its own wiring (see `ServiceWiring`).
+ *
+ * @template T - The instance type
+ */
+export type WiredServiceTag<T = unknown> = ServiceTag<T> & ServiceWiring<T>;
+
+/**
+ * Defines which tags can provide a value for a given parameter type T:
+ * - A ServiceTag (class, possibly abstract) whose instances are assignable to T
+ * - A ValueTag whose value type is assignable to T
+ *
+ * The conditional uses `[T] extends [object]` (tuple-wrapped) to prevent
+ * distribution over union types. Without this, a parameter typed as a
+ * string union (e.g. `'SANDBOX' | 'PRODUCTION'`) would distribute into
+ * `ValueTag<any, 'SANDBOX'> | ValueTag<any, 'PRODUCTION'>`, and a
+ * `ValueTag<any, 'SANDBOX' | 'PRODUCTION'>` would not be assignable to
+ * either branch (ValueTag is invariant in its value parameter).
+ * @internal
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type ValidTagFor<T> = [T] extends [object]
+	? AbstractServiceTag<T> | ValueTag<any, T>
+	: ValueTag<any, T>;
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/**
+ * Defines what constitutes a valid dependency for a given parameter type T.
+ * A valid dependency is either:
+ * - A tag providing T (see `ValidTagFor`)
+ * - An `Optional` tag providing T, if the parameter accepts `undefined`
+ * - A raw value of type T
+ * @internal
+ */
+export type ValidDepFor<T> =
+	| ValidTagFor<T>
+	| (undefined extends T
+			? Optional<ValidTagFor<Exclude<T, undefined>>>
+			: never)
+	| T;
+
+/**
+ * Maps constructor parameters to valid dependency types.
+ * Each parameter type T becomes ValidDepFor<T>.
+ * @internal
+ */
+export type ValidDepsFor<TParams extends readonly unknown[]> = {
+	readonly [K in keyof TParams]: ValidDepFor<TParams[K]>;
+};
+
+/**
+ * Narrows a dependency to the tags it requires: raw values, Optional markers
+ * and DefaultTags require nothing, self-wired service classes require what
+ * their own `deps` require.
+ * @internal
+ */
+export type RequiredTag<T> = T extends AnyDefaultTag
+	? never
+	: T extends WiredServiceTag
+		? WiringRequires<T>
+		: T extends AnyTag
+			? T
+			: never;
+
+/**
+ * Extracts only the required tags from a dependency array.
+ * Used to determine layer requirements.
+ * @internal
+ */
+export type ExtractTags<T extends readonly unknown[]> = {
+	[K in keyof T]: RequiredTag<T[K]>;
+}[number];
+
+/**
+ * Tags a self-wired service class requires, as recorded by `Tag.Service()`.
+ * Classes declaring a static `deps` array by hand record none.
+ * @internal
+ */
+export type WiringRequires<T> = T extends {
+	readonly [ServiceRequiresKey]?: infer TRequires;
+}
+	? Extract<TRequires, AnyTag>
+	: never;
+
+/**
+ * Resolves to `never` for a self-wired service class whose constructor
+ * parameters do not accept its `deps`, and to `unknown` otherwise.
+ * Intersected with tag parameters to reject such classes when resolved.
+ * @internal
+ */
+export type ValidWiring<T> = T extends WiredServiceTag
+	? T extends abstract new (...args: infer TParams) => unknown
+		? T['deps'] extends ValidDepsFor<TParams>
+			? unknown
+			: never
+		: unknown
+	: unknown;
+
+/**
+ * Default for a ValueTag: either a constant value or a factory that creates it.
+ *
+ * A constant belongs to the caller and is never disposed by containers,
+ * while instances created by `defaultFactory` are disposed like any other.
+ *
+ * @template T - The type of the value the tag represents
+ */
+export type TagDefault<T> = { default: T } | { defaultFactory: () => T };
+
+/**
+ * A DefaultTag is a ValueTag with a fallback value.
+ *
+ * Containers use the default when no factory is registered for the tag,
+ * so layers never count a DefaultTag as a requirement.
+ * Registering the tag overrides the default.
+ *
+ * @template Id - The unique identifier for this tag (string or symbol)
+ * @template T - The type of the value this tag represents
+ *
+ * @example
+ * ```typescript
+ * const PortTag = Tag.of('Port')<number>({ default: 3000 });
+ *
+ * const port = await Container.empty().resolve(PortTag); // 3000
+ * ```
+ */
+export interface DefaultTag<Id extends TagId, T> extends ValueTag<Id, T> {
+	readonly [DefaultTagKey]: TagDefault<T>;
+}
+
+/**
+ * Any DefaultTag, regardless of its identifier and value type.
+ */
+export type AnyDefaultTag = DefaultTag<TagId, unknown>;
+
+/**
+ * Creates ValueTags for a fixed identifier, with or without a default.
+ * Returned by `Tag.of(id)`.
+ */
+export interface ValueTagFactory<Id extends TagId> {
+	<T>(): ValueTag<Id, T>;
+	<T>(options: TagDefault<T>): DefaultTag<Id, T>;
+}
+
+/**
+ * A ManyTag is a ValueTag for a collection that several registrations contribute to.
+ *
+ * Resolving a ManyTag yields an array of all contributed elements in registration order.
+ *
+ * @template Id - The unique identifier for this tag (string or symbol)
+ * @template T - The type of each element in the collection
+ *
+ * @example
+ * ```typescript
+ * const PluginsTag = Tag.many('plugins')<Plugin>();
+ *
+ * const container = Container.builder()
+ *   .contribute(PluginsTag, () => new MetricsPlugin())
+ *   .contribute(PluginsTag, () => new AuditPlugin())
+ *   .build();
+ *
+ * const plugins = await container.resolve(PluginsTag); // [MetricsPlugin, AuditPlugin]
+ * ```
+ */
+export interface ManyTag<Id extends TagId, T> extends ValueTag<Id, T[]> {
+	readonly [ManyTagKey]: true;
+}
+
+/**
+ * Any ManyTag, regardless of its identifier and element type.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyManyTag = ManyTag<TagId, any>;
+
+/**
+ * Extracts the element type from a ManyTag.
+ */
+export type ManyTagElement<T extends AnyManyTag> =
+	T extends ManyTag<TagId, infer Element> ? Element : never;
+
+/**
+ * A MapTag is a ValueTag for a keyed collection that several registrations contribute to.
+ *
+ * Resolving a MapTag yields a `Map` of all contributed entries in registration order.
+ * Each key can only be contributed once.
+ *
+ * @template Id - The unique identifier for this tag (string or symbol)
+ * @template T - The type of each entry value
+ *
+ * @example
+ * ```typescript
+ * const CommandsTag = Tag.map('commands')<Command>();
+ *
+ * const container = Container.builder()
+ *   .contributeEntry(CommandsTag, 'migrate', () => new MigrateCommand())
+ *   .contributeEntry(CommandsTag, 'seed', () => new SeedCommand())
+ *   .build();
+ *
+ * const commands = await container.resolve(CommandsTag); // Map { 'migrate' => ..., 'seed' => ... }
+ * ```
+ */
+export interface MapTag<Id extends TagId, T> extends ValueTag<
+	Id,
+	Map<string, T>
+> {
+	readonly [MapTagKey]: true;
+}
+
+/**
+ * Any MapTag, regardless of its identifier and entry type.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyMapTag = MapTag<TagId, any>;
+
+/**
+ * Extracts the entry value type from a MapTag.
+ */
+export type MapTagEntry<T extends AnyMapTag> =
+	T extends MapTag<TagId, infer Entry> ? Entry : never;
+
 /**
  * Union type representing any valid dependency tag in the system.
  *
  * A tag can be either:
- * - A class constructor (ServiceTag) - for class-based dependencies
+ * - A class constructor (ServiceTag or AbstractServiceTag) - for class-based dependencies
  * - A ValueTag - for non-class dependencies (primitives, objects, functions)
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type AnyTag = ServiceTag | ValueTag<TagId, any>;
+export type AnyTag = AbstractServiceTag | ValueTag<TagId, any>;
 
 /**
  * Extracts the instance/value type from any dependency tag.
@@ -89,13 +380,26 @@ export type AnyTag = ServiceTag | ValueTag<TagId, any>;
  */
 export type TagType<T extends AnyTag> =
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	T extends new (...args: any[]) => infer Instance
+	T extends abstract new (...args: any[]) => infer Instance
 		? Instance
 		: // eslint-disable-next-line @typescript-eslint/no-explicit-any
 			T extends ValueTag<any, infer Value>
 			? Value
 			: never;
 
+/**
+ * Marks a tag as an optional dependency.
+ *
+ * Created with `Optional(tag)`. When used in a `Layer.service()` dependency array,
+ * the tag is resolved with `resolveOptional`, so the constructor receives `undefined`
+ * if nothing is registered, and the tag is not counted as a layer requirement.
+ *
+ * @template T - The wrapped tag
+ */
+export interface Optional<T extends AnyTag> {
+	readonly [OptionalTagKey]: T;
+}
+
 /**
  * Helper to get an object property safely.
  * @internal
@@ -113,6 +417,9 @@ export const Tag = {
 	/**
 	 * Creates a ValueTag factory for non-class dependencies.
 	 *
+	 * Pass a `default` value or a `defaultFactory` to create a DefaultTag,
+	 * which containers resolve to the default when nothing is registered.
+	 *
 	 * @param id - The unique identifier for this tag (string or symbol)
 	 * @returns A factory function that creates a ValueTag for the specified type
 	 *
@@ -121,14 +428,70 @@ export const Tag = {
 	 * const ApiKeyTag = Tag.of('ApiKey')<string>();
 	 * const PortTag = Tag.of('Port')<number>();
 	 * const ConfigTag = Tag.of('Config')<{ dbUrl: string; port: number }>();
+	 *
+	 * // With defaults
+	 * const HostTag = Tag.of('Host')<string>({ default: 'localhost' });
+	 * const StartedAtTag = Tag.of('StartedAt')<Date>({ defaultFactory: () => new Date() });
 	 * ```
 	 */
-	of: <Id extends TagId>(id: Id) => {
-		return <T>(): ValueTag<Id, T> =>
-			({
+	of: <Id extends TagId>(id: Id): ValueTagFactory<Id> => {
+		return (<T>(options?: TagDefault<T>) => {
+			const tag = {
 				[ValueTagIdKey]: id,
 				[TagTypeKey]: undefined as T,
-			}) as ValueTag<Id, T>;
+			};
+			if (options === undefined) {
+				return tag;
+			}
+			return { ...tag, [DefaultTagKey]: options };
+		}) as ValueTagFactory<Id>;
+	},
+
+	/**
+	 * Creates a ManyTag factory for collections with multiple contributors.
+	 *
+	 * Each contribution (via `builder.contribute()` or `Layer.contribute()`)
+	 * adds one element; resolving the tag returns all elements in registration order.
+	 *
+	 * @param id - The unique identifier for this tag (string or symbol)
+	 * @returns A factory function that creates a ManyTag for the specified element type
+	 *
+	 * @example
+	 * ```typescript
+	 * const PluginsTag = Tag.many('plugins')<Plugin>();
+	 * const HealthChecksTag = Tag.many('healthChecks')<() => Promise<boolean>>();
+	 * ```
+	 */
+	many: <Id extends TagId>(id: Id) => {
+		return <T>(): ManyTag<Id, T> =>
+			({
+				[ValueTagIdKey]: id,
+				[TagTypeKey]: undefined as unknown as T[],
+				[ManyTagKey]: true,
+			}) as ManyTag<Id, T>;
+	},
+
+	/**
+	 * Creates a MapTag factory for keyed collections with multiple contributors.
+	 *
+	 * Each contribution (via `builder.contributeEntry()` or `Layer.contributeEntry()`)
+	 * adds one entry under a string key; resolving the tag returns a `Map` of all entries.
+	 *
+	 * @param id - The unique identifier for this tag (string or symbol)
+	 * @returns A factory function that creates a MapTag for the specified entry type
+	 *
+	 * @example
+	 * ```typescript
+	 * const JobHandlersTag = Tag.map('jobHandlers')<JobHandler>();
+	 * ```
+	 */
+	map: <Id extends TagId>(id: Id) => {
+		return <T>(): MapTag<Id, T> =>
+			({
+				[ValueTagIdKey]: id,
+				[TagTypeKey]: undefined as unknown as Map<string, T>,
+				[MapTagKey]: true,
+			}) as MapTag<Id, T>;
 	},
 
 	/**
@@ -195,6 +558,81 @@ export const Tag = {
 		);
 	},
 
+	/**
+	 * Type guard to check if a value is a ManyTag.
+	 */
+	isManyTag: (x: unknown): x is AnyManyTag => {
+		return Tag.isValueTag(x) && getKey(x, ManyTagKey) === true;
+	},
+
+	/**
+	 * Type guard to check if a value is a MapTag.
+	 */
+	isMapTag: (x: unknown): x is AnyMapTag => {
+		return Tag.isValueTag(x) && getKey(x, MapTagKey) === true;
+	},
+
+	/**
+	 * Creates a base class for services that carry their own wiring.
+	 *
+	 * Containers auto-register subclasses on first resolve, constructing them
+	 * with `deps` resolved like a `Layer.service()` dependency array. The wiring
+	 * only applies when nothing is registered for the class, so layers can
+	 * still override it. Auto-registered services are singletons created in
+	 * the root container; add a static `cleanup` method to finalize them.
+	 * Resolving a subclass is type-checked: its constructor must accept
+	 * `deps`, and the container must register the tags `deps` require.
+	 *
+	 * @param deps - Constructor arguments: tags, `Optional` tags or raw values
+	 * @returns A base class declaring the static `deps`
+	 *
+	 * @example
+	 * ```typescript
+	 * class UserRepository extends Tag.Service([Database, LoggerTag]) {
+	 *   constructor(private db: Database, private logger: Logger) {
+	 *     super();
+	 *   }
+	 *
+	 *   static cleanup(repository: UserRepository) {
+	 *     return repository.flush();
+	 *   }
+	 * }
+	 *
+	 * const repository = await container.resolve(UserRepository);
+	 * ```
+	 */
+	Service: <const TDeps extends readonly unknown[] = []>(deps?: TDeps) => {
+		// Subclasses provide the instance side
+		// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+		return class Service {
+			static readonly deps: TDeps = deps ?? ([] as unknown as TDeps);
+			declare static readonly [ServiceRequiresKey]?: ExtractTags<TDeps>;
+		};
+	},
+
+	/**
+	 * Type guard to check if a value is a class with a static wiring contract.
+	 */
+	hasWiring: (x: unknown): x is WiredServiceTag => {
+		return Tag.isServiceTag(x) && Array.isArray(getKey(x, 'deps'));
+	},
+
+	/**
+	 * Type guard to check if a value is a DefaultTag.
+	 */
+	hasDefault: (x: unknown): x is AnyDefaultTag => {
+		return (
+			Tag.isValueTag(x) && typeof getKey(x, DefaultTagKey) === 'object'
+		);
+	},
+
+	/**
+	 * Type guard to check if a value is an Optional marker.
+	 */
+	isOptional: (x: unknown): x is Optional<AnyTag> => {
+		return typeof x === 'object' && Tag.isTag(getKey(x, OptionalTagKey));
+	},
+
 	/**
 	 * Type guard to check if a value is any kind of tag (ServiceTag or ValueTag).
 	 */
@@ -202,3 +640,25 @@ export const Tag = {
 		return Tag.isServiceTag(x) || Tag.isValueTag(x);
 	},
 };
+
+/**
+ * Wraps a tag to mark it as an optional dependency in `Layer.service()`.
+ *
+ * The matching constructor parameter must accept `undefined`.
+ *
+ * @param tag - The tag to resolve if it is registered
+ * @returns An Optional marker for the tag
+ *
+ * @example
+ * ```typescript
+ * class MetricsService {
+ *   constructor(private exporter: TelemetryExporter | undefined) {}
+ * }
+ *
+ * // Requires nothing: exporter is undefined unless TelemetryExporter is registered
+ * const metricsLayer = Layer.service(MetricsService, [Optional(TelemetryExporter)]);
+ * ```
+ */
+export function Optional<T extends AnyTag>(tag: T): Optional<T> {
+	return { [OptionalTagKey]: tag };
+}
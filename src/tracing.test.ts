@@ -0,0 +1,206 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { describe, expect, it, vi } from 'vitest';
+import { Container, ScopedContainer } from './container.js';
+import { DependencyFinalizationError } from './errors.js';
+import { Tag } from './tag.js';
+import {
+	Tracing,
+	type Tracer,
+	type TracingAttributeValue,
+	type TracingSpan,
+} from './tracing.js';
+
+interface RecordedSpan {
+	name: string;
+	attributes: Record<string, TracingAttributeValue>;
+	parent: RecordedSpan | undefined;
+	exceptions: (Error | string)[];
+	status: { code: number; message?: string } | undefined;
+	ended: boolean;
+}
+
+/**
+ * In-memory tracer propagating the active span like the OpenTelemetry
+ * AsyncLocalStorage context manager.
+ */
+function createTracer() {
+	const active = new AsyncLocalStorage<RecordedSpan>();
+	const spans: RecordedSpan[] = [];
+
+	const tracer: Tracer = {
+		startActiveSpan<F extends (span: TracingSpan) => unknown>(
+			name: string,
+			options: { attributes?: Record<string, TracingAttributeValue> },
+			fn: F
+		): ReturnType<F> {
+			const recorded: RecordedSpan = {
+				name,
+				attributes: { ...options.attributes },
+				parent: active.getStore(),
+				exceptions: [],
+				status: undefined,
+				ended: false,
+			};
+			spans.push(recorded);
+			const span: TracingSpan = {
+				setAttribute: (key, value) => {
+					recorded.attributes[key] = value;
+				},
+				recordException: (exception) => {
+					recorded.exceptions.push(exception);
+				},
+				setStatus: (status) => {
+					recorded.status = status;
+				},
+				end: () => {
+					recorded.ended = true;
+				},
+			};
+			return active.run(recorded, () => fn(span)) as ReturnType<F>;
+		},
+	};
+
+	const find = (name: string) => {
+		const span = spans.find((s) => s.name === name);
+		if (span === undefined) {
+			throw new Error(`No span named "${name}"`);
+		}
+		return span;
+	};
+
+	return { tracer, spans, find };
+}
+
+describe('Tracing', () => {
+	class Database {}
+	class UserService {
+		constructor(readonly db: Database) {}
+	}
+
+	describe('factory spans', () => {
+		it('should open a span per factory nested by resolution chain', async () => {
+			const { tracer, spans, find } = createTracer();
+			const container = Container.builder()
+				.intercept(Tracing.interceptors(tracer))
+				.add(Database, () => new Database())
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+
+			await container.resolve(UserService);
+			await container.resolve(UserService);
+
+			expect(spans.map((span) => span.name)).toEqual([
+				'UserService',
+				'Database',
+			]);
+			expect(find('Database').parent).toBe(find('UserService'));
+			expect(find('UserService').parent).toBeUndefined();
+			expect(spans.every((span) => span.ended)).toBe(true);
+		});
+
+		it('should record the tag, chain and scope as attributes', async () => {
+			const { tracer, find } = createTracer();
+			const app = ScopedContainer.builder('app')
+				.intercept(Tracing.interceptors(tracer))
+				.add(Database, () => new Database())
+				.build();
+			const request = app
+				.child('request')
+				.add(
+					UserService,
+					async (ctx) => new UserService(await ctx.resolve(Database))
+				)
+				.build();
+
+			await request.resolve(UserService);
+
+			expect(find('UserService').attributes).toEqual({
+				'sandly.tag': 'UserService',
+				'sandly.chain': [],
+				'sandly.scope': 'request',
+			});
+			expect(find('Database').attributes).toEqual({
+				'sandly.tag': 'Database',
+				'sandly.chain': ['UserService'],
+				'sandly.scope': 'app',
+			});
+		});
+
+		it('should record factory errors on the span', async () => {
+			const { tracer, find } = createTracer();
+			const ConfigTag = Tag.of('config')<string>();
+			const failure = new Error('missing env');
+			const container = Container.builder()
+				.intercept(Tracing.interceptors(tracer))
+				.add(ConfigTag, () => {
+					throw failure;
+				})
+				.build();
+
+			await expect(container.resolve(ConfigTag)).rejects.toThrow();
+
+			const span = find('config');
+			expect(span.exceptions).toEqual([failure]);
+			expect(span.status).toEqual({ code: 2, message: 'missing env' });
+			expect(span.ended).toBe(true);
+		});
+	});
+
+	describe('destroy spans', () => {
+		it('should open a destroy span with a child span per finalizer', async () => {
+			const { tracer, find } = createTracer();
+			const container = Container.builder()
+				.intercept(Tracing.interceptors(tracer))
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: vi.fn(),
+				})
+				.add(UserService, {
+					create: async (ctx) =>
+						new UserService(await ctx.resolve(Database)),
+					cleanup: vi.fn(),
+				})
+				.build();
+
+			await container.resolve(UserService);
+			await container.destroy();
+
+			const destroy = find('destroy');
+			expect(destroy.parent).toBeUndefined();
+			expect(destroy.ended).toBe(true);
+			expect(find('finalize UserService').parent).toBe(destroy);
+			expect(find('finalize Database').parent).toBe(destroy);
+			expect(find('finalize Database').attributes).toEqual({
+				'sandly.tag': 'Database',
+			});
+		});
+
+		it('should record finalizer errors on both spans', async () => {
+			const { tracer, find } = createTracer();
+			const failure = new Error('close failed');
+			const container = Container.builder()
+				.intercept(Tracing.interceptors(tracer))
+				.add(Database, {
+					create: () => new Database(),
+					cleanup: () => {
+						throw failure;
+					},
+				})
+				.build();
+
+			await container.resolve(Database);
+			await expect(container.destroy()).rejects.toThrow(
+				DependencyFinalizationError
+			);
+
+			expect(find('finalize Database').exceptions).toEqual([failure]);
+			expect(find('destroy').exceptions).toEqual([
+				expect.any(DependencyFinalizationError),
+			]);
+			expect(find('destroy').status?.code).toBe(2);
+		});
+	});
+});
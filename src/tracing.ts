@@ -0,0 +1,129 @@
+import type { LifecycleInterceptors, Scope } from './container.js';
+import { Tag } from './tag.js';
+
+/**
+ * Value of a span attribute.
+ */
+export type TracingAttributeValue = string | number | boolean | string[];
+
+/**
+ * The subset of the OpenTelemetry `Span` API used for tracing.
+ */
+export interface TracingSpan {
+	setAttribute(key: string, value: TracingAttributeValue): unknown;
+	recordException(exception: Error | string): unknown;
+	setStatus(status: { code: number; message?: string }): unknown;
+	end(): void;
+}
+
+/**
+ * The subset of the OpenTelemetry `Tracer` API used for tracing.
+ *
+ * Any OpenTelemetry tracer satisfies it, e.g. `trace.getTracer('app')`.
+ */
+export interface Tracer {
+	startActiveSpan<F extends (span: TracingSpan) => unknown>(
+		name: string,
+		options: { attributes?: Record<string, TracingAttributeValue> },
+		fn: F
+	): ReturnType<F>;
+}
+
+/**
+ * `SpanStatusCode.ERROR` in the OpenTelemetry API.
+ * @internal
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Builds the attributes shared by every span of a container.
+ * @internal
+ */
+function scopeAttributes(
+	scope: Scope | undefined
+): Record<string, TracingAttributeValue> {
+	return scope === undefined ? {} : { 'sandly.scope': String(scope) };
+}
+
+/**
+ * Runs `run` inside an active span, recording its error if it fails.
+ * @internal
+ */
+function inSpan<T>(
+	tracer: Tracer,
+	name: string,
+	attributes: Record<string, TracingAttributeValue>,
+	run: () => Promise<T>
+): Promise<T> {
+	return tracer.startActiveSpan(name, { attributes }, async (span) => {
+		try {
+			return await run();
+		} catch (error) {
+			const exception = error instanceof Error ? error : String(error);
+			span.recordException(exception);
+			span.setStatus({
+				code: SPAN_STATUS_ERROR,
+				message:
+					typeof exception === 'string'
+						? exception
+						: exception.message,
+			});
+			throw error;
+		} finally {
+			span.end();
+		}
+	});
+}
+
+/**
+ * OpenTelemetry-compatible tracing for containers.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const container = Container.builder()
+ *   .intercept(Tracing.interceptors(trace.getTracer('app')))
+ *   .add(Database, () => new Database())
+ *   .build();
+ * ```
+ */
+export const Tracing = {
+	/**
+	 * Creates interceptors that record container activity as spans.
+	 *
+	 * - Every factory invocation gets a span named after `Tag.id`, with the
+	 *   resolution chain in the `sandly.chain` attribute.
+	 * - `destroy()` gets a `destroy` span, with a `finalize <id>` child span
+	 *   per finalizer.
+	 *
+	 * Spans are started with `startActiveSpan`, so they nest according to
+	 * the resolution chain through the tracer's context propagation.
+	 * Failures are recorded as exceptions with an error status.
+	 *
+	 * @param tracer - An OpenTelemetry tracer, or any object with the same shape
+	 * @returns Interceptors to pass to `builder.intercept()`
+	 */
+	interceptors: (tracer: Tracer): LifecycleInterceptors => ({
+		create: (tag, next, { chain, scope }) =>
+			inSpan(
+				tracer,
+				Tag.id(tag),
+				{
+					'sandly.tag': Tag.id(tag),
+					'sandly.chain': chain.map(Tag.id),
+					...scopeAttributes(scope),
+				},
+				next
+			),
+		finalize: (tag, next, { scope }) =>
+			inSpan(
+				tracer,
+				`finalize ${Tag.id(tag)}`,
+				{ 'sandly.tag': Tag.id(tag), ...scopeAttributes(scope) },
+				next
+			),
+		destroy: (next, { scope }) =>
+			inSpan(tracer, 'destroy', scopeAttributes(scope), next),
+	}),
+};
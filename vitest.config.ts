@@ -5,11 +5,14 @@ export default defineConfig({
 	plugins: [tsconfigPaths()],
 	test: {
 		include: ['src/**/*.test.ts'],
+		benchmark: {
+			include: ['src/**/*.bench.ts'],
+		},
 		coverage: {
 			provider: 'v8',
 			reporter: ['text', 'json', 'html'],
 			include: ['src/**/*.ts'],
-			exclude: ['src/**/*.test.ts'],
+			exclude: ['src/**/*.test.ts', 'src/**/*.bench.ts'],
 		},
 	},
 });